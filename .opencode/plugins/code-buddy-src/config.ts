@@ -4,6 +4,7 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import * as os from "node:os";
 import type { PluginConfig } from "./types";
 
 export const defaultConfig: PluginConfig = {
@@ -15,7 +16,11 @@ export const defaultConfig: PluginConfig = {
         temperature: 0.7,
     },
     storage: {
-        dataDir: ".opencode/code-buddy/data",
+        dataDir: "~/.config/opencode/code-buddy/data",
+        backend: "json",
+        scope: "project",
+        maxSnapshots: 30,
+        trashRetentionDays: 30,
     },
     features: {
         memory: true,
@@ -36,12 +41,45 @@ export const defaultConfig: PluginConfig = {
             "buddy_remember", "buddy_help", "buddy_remember_recent",
             "buddy_remember_stats", "buddy_remember_by_category",
         ],
+        extractors: {},
         fullAuto: true,
         autoErrorDetect: true,
         requireEditForRecord: true,
+        guideMinRelevance: 0.15,
+        guideMaxCount: 2,
+        guideMaxChars: 800,
+        guideMaxInjectionsPerSession: 3,
+        guideTopicShiftThreshold: 0.15,
+        guideTokenBudget: 600,
+        guideTypeWeights: { decision: 1.2, lesson: 1.2, bugfix: 1.1, pattern: 1, feature: 1, note: 0.9 },
+        guideIncludeTags: [],
+        guideExcludeTags: [],
+        pitfallMinRelevance: 0.3,
+        pitfallMaxCount: 2,
+        fileContext: true,
+        fileContextMaxItems: 3,
+        compactionTokenBudget: 1500,
+    },
+    embeddings: {
+        mode: "local",
+        model: "text-embedding-3-small",
+        vectorWeight: 0.5,
+        minSimilarity: 0.2,
+    },
+    redaction: {
+        enabled: true,
+        patterns: [],
+        minEntropy: 4,
     },
 };
 
+/**
+ * `storage.dataDir` that older versions wrote into every config file. They
+ * never used it — data always lived in the global data dir — so it is
+ * migrated to the current default rather than resolved against each project.
+ */
+export const LEGACY_DATA_DIR = ".opencode/code-buddy/data";
+
 /** Deep-merge loaded config with defaults so partial configs don't lose fields. */
 function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
     const result = { ...target };
@@ -65,6 +103,10 @@ export function loadConfig(configPath: string, log: LogFn = console.log): Plugin
     try {
         if (fs.existsSync(configPath)) {
             const loaded = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+            if (loaded.storage?.dataDir === LEGACY_DATA_DIR) {
+                loaded.storage.dataDir = defaultConfig.storage.dataDir;
+                log(`[code-buddy] ⚠️ storage.dataDir "${LEGACY_DATA_DIR}" is a legacy default — migrated to "${defaultConfig.storage.dataDir}", where existing data lives`);
+            }
             const merged = deepMerge(defaultConfig as unknown as Record<string, unknown>, loaded) as unknown as PluginConfig;
             // Persist merged config so newly added defaults appear in the file
             fs.writeFileSync(configPath, JSON.stringify(merged, null, 4), "utf-8");
@@ -84,3 +126,16 @@ export function loadConfig(configPath: string, log: LogFn = console.log): Plugin
     return { ...defaultConfig };
 }
 
+
+/**
+ * Resolve `storage.dataDir` to an absolute path. `~` expands to the home
+ * directory and relative paths resolve against the project root; an empty
+ * value falls back to `fallbackDir`.
+ */
+export function resolveDataDir(dataDir: string | undefined, projectRoot: string, fallbackDir: string): string {
+    if (!dataDir) return fallbackDir;
+    if (dataDir === "~" || dataDir.startsWith("~/")) {
+        return path.join(os.homedir(), dataDir.slice(1));
+    }
+    return path.resolve(projectRoot, dataDir);
+}
@@ -2,16 +2,20 @@
  * Dedup/merge logic extracted from hooks.ts for testability.
  */
 
-import type { MemoryEntry, Observation } from "./types";
+import type { MemoryEntry, Observation, FileDiff } from "./types";
 import { calculateSimilarity } from "./helpers";
+import { inProject } from "./project";
+import { recordRevision, SYSTEM_AUTHOR } from "./revisions";
+import { vectorSimilaritiesSync, hybridScore } from "./embeddings";
+import { sessionDiffs } from "./session-diffs";
 import type { PluginState } from "./state";
 
 export const SYNC_JACCARD_THRESHOLD = 0.55; // slightly lower than async (0.65) to catch project rebuilds
 
 /** Detect whether this is a debug/fix, enhance, or build/create session. */
-export function detectSessionType(buf: Observation[]): "debug" | "enhance" | "build" {
-    const hasNewFiles = buf.some((o) => o.tool.toLowerCase().includes("write") || o.tool === "write");
-    const hasEdits = buf.some((o) => o.tool.toLowerCase().includes("edit") || o.tool === "edit");
+export function detectSessionType(buf: Observation[], diffs: FileDiff[] = sessionDiffs(buf)): "debug" | "enhance" | "build" {
+    const hasNewFiles = diffs.some((d) => d.created) || buf.some((o) => o.tool.toLowerCase().includes("write") || o.tool === "write");
+    const hasEdits = diffs.length > 0 || buf.some((o) => o.tool.toLowerCase().includes("edit") || o.tool === "edit");
 
     // If new files are written, it's a build
     if (hasNewFiles) return "build";
@@ -29,13 +33,12 @@ export function detectSessionType(buf: Observation[]): "debug" | "enhance" | "bu
         let newFunctions = 0;
         let newElements = 0;
 
-        for (const o of buf) {
-            if (!(o.tool === "edit" || o.tool.toLowerCase().includes("edit"))) continue;
-            const newStr = (o.args?.new_string || o.args?.newString || o.args?.new || "") as string;
-            const oldStr = (o.args?.old_string || o.args?.oldString || o.args?.old || "") as string;
+        for (const d of diffs) {
+            const newStr = d.added.join("\n");
+            const oldStr = d.removed.join("\n");
 
-            totalAdded += newStr.split("\n").length;
-            totalRemoved += oldStr.split("\n").length;
+            totalAdded += d.added.length;
+            totalRemoved += d.removed.length;
 
             // Count new functions/methods added
             const newFuncMatches = newStr.match(/function\s+\w+/g) || [];
@@ -66,29 +69,34 @@ export function detectSessionType(buf: Observation[]): "debug" | "enhance" | "bu
  * Used by sync flush paths (process exit) where async LLM calls aren't possible.
  * - If a similar memory exists → update it in-place (merge content, union tags, bump timestamp).
  * - If no match → push a new entry.
- * Returns the saved/merged entry.
+ * Returns the saved/merged entry; throws when the memories could not be
+ * saved, so exit paths keep the session's journal for replay.
  */
 export function saveMemoryWithSyncDedup(
     s: PluginState,
     entry: MemoryEntry,
 ): MemoryEntry {
     const combined = `${entry.title} ${entry.content}`;
+    if (!entry.project) entry.project = s.projectId;
 
-    // Find the best Jaccard match
-    let bestIdx = -1;
+    // Find the best Jaccard match within this project (lifted by local vectors when enabled)
+    const pool = inProject(s.memories, s.projectId);
+    const vectors = vectorSimilaritiesSync(s, combined, pool);
+    let best: MemoryEntry | null = null;
     let bestScore = 0;
-    for (let i = 0; i < s.memories.length; i++) {
-        const m = s.memories[i];
-        const score = calculateSimilarity(combined, `${m.title} ${m.content}`);
+    for (const m of pool) {
+        const score = hybridScore(s, calculateSimilarity(combined, `${m.title} ${m.content}`), vectors.get(m.id));
         if (score >= SYNC_JACCARD_THRESHOLD && score > bestScore) {
             bestScore = score;
-            bestIdx = i;
+            best = m;
         }
     }
 
-    if (bestIdx >= 0) {
-        const existing = s.memories[bestIdx];
-        s.log(`[code-buddy] 🔄 Sync dedup: merging with "${existing.title}" (Jaccard: ${bestScore.toFixed(2)})`);
+    if (best) {
+        const existing = best;
+        s.log(`[code-buddy] 🔄 Sync dedup: merging with "${existing.title}" (score: ${bestScore.toFixed(2)})`);
+        s.snapshotBefore("merge", true);
+        const before = { ...existing, tags: [...existing.tags] };
 
         // Merge: new content replaces old (it's more up-to-date), union tags
         existing.title = entry.title;
@@ -96,12 +104,13 @@ export function saveMemoryWithSyncDedup(
         existing.timestamp = entry.timestamp;
         existing.tags = [...new Set([...existing.tags, ...entry.tags])].slice(0, 10);
 
-        s.saveMemories();
+        if (!s.saveMemories()) throw new Error("Could not save memories");
+        recordRevision(s, before, existing, "sync-merge", SYSTEM_AUTHOR);
         return existing;
     }
 
     // No match — save as new
     s.memories.push(entry);
-    s.saveMemories();
+    if (!s.saveMemories()) throw new Error("Could not save memories");
     return entry;
 }
@@ -0,0 +1,102 @@
+/**
+ * Minimal line-based diff (LCS) with unified-diff output.
+ *
+ * Sized for memories and source snippets, not whole repositories: the LCS
+ * table is O(n·m), so callers should keep inputs to a few thousand lines.
+ */
+
+export type DiffOp = { kind: "equal" | "add" | "remove"; line: string };
+
+/** Line-by-line edit script turning `before` into `after`. */
+export function diffLines(before: string, after: string): DiffOp[] {
+    const a = before === "" ? [] : before.split("\n");
+    const b = after === "" ? [] : after.split("\n");
+
+    // Trim the common prefix/suffix so the LCS table only covers the changed middle
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: DiffOp[] = a.slice(0, start).map((line) => ({ kind: "equal" as const, line }));
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) { ops.push({ kind: "equal", line: midA[i] }); i++; j++; }
+        else if (lcs[i + 1][j] >= lcs[i][j + 1]) ops.push({ kind: "remove", line: midA[i++] });
+        else ops.push({ kind: "add", line: midB[j++] });
+    }
+    while (i < midA.length) ops.push({ kind: "remove", line: midA[i++] });
+    while (j < midB.length) ops.push({ kind: "add", line: midB[j++] });
+    for (const line of a.slice(endA)) ops.push({ kind: "equal", line });
+    return ops;
+}
+
+/**
+ * Unified diff (`@@ -l,n +l,n @@` hunks with `context` lines around changes).
+ * Returns an empty string when the inputs are identical.
+ */
+export function unifiedDiff(before: string, after: string, opts: { fromLabel?: string; toLabel?: string; context?: number } = {}): string {
+    const context = opts.context ?? 3;
+    const ops = diffLines(before, after);
+    if (!ops.some((op) => op.kind !== "equal")) return "";
+
+    const lines: string[] = [];
+    if (opts.fromLabel || opts.toLabel) {
+        lines.push(`--- ${opts.fromLabel ?? "before"}`, `+++ ${opts.toLabel ?? "after"}`);
+    }
+
+    // Line numbers (1-based) of each op in the old and new text
+    const oldNo: number[] = [];
+    const newNo: number[] = [];
+    let o = 1;
+    let n = 1;
+    for (const op of ops) {
+        oldNo.push(o);
+        newNo.push(n);
+        if (op.kind !== "add") o++;
+        if (op.kind !== "remove") n++;
+    }
+
+    let idx = 0;
+    while (idx < ops.length) {
+        if (ops[idx].kind === "equal") { idx++; continue; }
+
+        // Grow the hunk until `context * 2` unchanged lines separate it from the next change
+        const hunkStart = Math.max(0, idx - context);
+        let hunkEnd = idx;
+        let equalRun = 0;
+        for (let k = idx; k < ops.length; k++) {
+            if (ops[k].kind === "equal") {
+                equalRun++;
+                if (equalRun > context * 2) break;
+            } else {
+                equalRun = 0;
+                hunkEnd = k;
+            }
+        }
+        const end = Math.min(ops.length, hunkEnd + context + 1);
+        const hunk = ops.slice(hunkStart, end);
+        const oldCount = hunk.filter((op) => op.kind !== "add").length;
+        const newCount = hunk.filter((op) => op.kind !== "remove").length;
+        const oldStart = oldCount === 0 ? oldNo[hunkStart] - 1 : oldNo[hunkStart];
+        const newStart = newCount === 0 ? newNo[hunkStart] - 1 : newNo[hunkStart];
+
+        lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        for (const op of hunk) {
+            lines.push(`${op.kind === "add" ? "+" : op.kind === "remove" ? "-" : " "}${op.line}`);
+        }
+        idx = end;
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,266 @@
+/**
+ * Vector embeddings for memories, used for hybrid lexical + vector ranking
+ * in recall, guide injection and dedup.
+ *
+ * Two modes (`embeddings.mode`):
+ * - "local": an offline hashed vectorizer — word and character-trigram
+ *   features with sublinear TF, IDF-weighted at query time over the stored
+ *   vectors. Catches inflections, typos and identifier fragments.
+ * - "remote": the resolved provider's OpenAI-compatible `/embeddings`
+ *   endpoint, for paraphrases that share no words ("login" ≈ "authentication").
+ *
+ * Vectors live in the `vectors` collection, keyed by memory id, and are
+ * recomputed lazily when a memory's text or the model changes. When vectors
+ * are unavailable (mode "off", no provider, HTTP error) scoring is lexical only.
+ */
+
+import type { MemoryEntry, MemoryVector } from "./types";
+import { nowTimestamp } from "./helpers";
+import { tokenize } from "./search";
+import { resolveProvider } from "./llm";
+import type { PluginState } from "./state";
+
+export const LOCAL_MODEL = "local-hash-v1";
+const LOCAL_DIMENSIONS = 1024;
+const REMOTE_BATCH_SIZE = 64;
+const REMOTE_RETRY_MS = 5 * 60 * 1000;
+
+/** After a failed remote call, skip the endpoint until this time. */
+const remoteRetryAt = new WeakMap<PluginState, number>();
+
+// ---- Vector math ----
+
+/** 32-bit FNV-1a. */
+function fnv1a(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map((x) => x / norm) : vector;
+}
+
+/** Cosine similarity; `weights` scales each dimension of both vectors. */
+export function cosine(a: number[], b: number[], weights?: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        const w = weights ? weights[i] * weights[i] : 1;
+        dot += a[i] * b[i] * w;
+        normA += a[i] * a[i] * w;
+        normB += b[i] * b[i] * w;
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ---- Local vectorizer ----
+
+/** Hashed words (weight 1) and character trigrams (weight 0.5), sublinear TF, L2-normalised. */
+export function localEmbed(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+    for (const token of tokenize(text.replace(/([a-z])([A-Z])/g, "$1 $2"))) {
+        add(`w:${token}`);
+        const padded = `#${token}#`;
+        if (padded.length > 4) {
+            for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`);
+        }
+    }
+
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    for (const [feature, tf] of counts) {
+        const h = fnv1a(feature);
+        const sign = h & 0x80000000 ? -1 : 1;
+        const weight = feature.startsWith("w:") ? 1 : 0.5;
+        vector[h % LOCAL_DIMENSIONS] += sign * weight * (1 + Math.log(tf));
+    }
+    return normalize(vector);
+}
+
+/** Per-dimension IDF over a set of local vectors — dimensions most memories share count less. */
+function dimensionIdf(vectors: number[][]): number[] {
+    const df = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    for (const v of vectors) {
+        for (let i = 0; i < v.length; i++) if (v[i] !== 0) df[i]++;
+    }
+    return df.map((d) => Math.log(1 + (vectors.length + 1) / (d + 1)));
+}
+
+// ---- Remote embeddings ----
+
+async function remoteEmbed(s: PluginState, texts: string[]): Promise<number[][] | null> {
+    if (Date.now() < (remoteRetryAt.get(s) ?? 0)) return null;
+    const provider = await resolveProvider(s);
+    if (!provider?.baseURL || !provider.apiKey) return null;
+
+    const vectors: number[][] = [];
+    try {
+        for (let i = 0; i < texts.length; i += REMOTE_BATCH_SIZE) {
+            const batch = texts.slice(i, i + REMOTE_BATCH_SIZE);
+            const response = await fetch(`${provider.baseURL}/embeddings`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${provider.apiKey}`,
+                    ...(provider.headers || {}),
+                },
+                body: JSON.stringify({ model: s.config.embeddings.model, input: batch }),
+            });
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+            const data = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+            const rows = [...(data.data || [])].sort((a, b) => a.index - b.index);
+            if (rows.length !== batch.length) throw new Error(`expected ${batch.length} embeddings, got ${rows.length}`);
+            vectors.push(...rows.map((r) => normalize(r.embedding)));
+        }
+        return vectors;
+    } catch (error) {
+        remoteRetryAt.set(s, Date.now() + REMOTE_RETRY_MS);
+        s.log("[code-buddy] ⚠️ Embeddings request failed — lexical ranking only for 5 minutes:", error);
+        return null;
+    }
+}
+
+// ---- Stored vectors ----
+
+/** Model id stored with vectors, or null when embeddings are off. */
+export function embeddingModel(s: PluginState): string | null {
+    switch (s.config.embeddings?.mode) {
+        case "local": return LOCAL_MODEL;
+        case "remote": return `remote:${s.config.embeddings.model}`;
+        default: return null;
+    }
+}
+
+/** Text embedded for a memory. */
+export function memoryText(m: Pick<MemoryEntry, "title" | "content" | "tags">): string {
+    return `${m.title}\n${m.tags.join(" ")}\n${m.content}`;
+}
+
+function textHash(text: string): string {
+    return `${fnv1a(text).toString(16)}-${text.length}`;
+}
+
+type Pending = { memory: MemoryEntry; hash: string };
+
+function lookup(s: PluginState, memories: MemoryEntry[], model: string): { found: Map<string, number[]>; missing: Pending[] } {
+    const stored = new Map(s.vectors.map((v) => [v.id, v]));
+    const found = new Map<string, number[]>();
+    const missing: Pending[] = [];
+    for (const memory of memories) {
+        const hash = textHash(memoryText(memory));
+        const v = stored.get(memory.id);
+        if (v && v.model === model && v.hash === hash) found.set(memory.id, v.vector);
+        else missing.push({ memory, hash });
+    }
+    return { found, missing };
+}
+
+/** Persist new vectors (dropping those of deleted memories) and add them to `found`. */
+function store(s: PluginState, model: string, missing: Pending[], vectors: number[][], found: Map<string, number[]>): void {
+    const updatedAt = nowTimestamp();
+    const fresh = new Map<string, MemoryVector>(missing.map(({ memory, hash }, i) => [memory.id, {
+        id: memory.id,
+        model,
+        hash,
+        vector: vectors[i].map((x) => Math.round(x * 1e4) / 1e4),
+        updatedAt,
+    }]));
+    const liveIds = new Set(s.memories.map((m) => m.id));
+    const kept = s.vectors.filter((v) => liveIds.has(v.id) && !fresh.has(v.id));
+    s.vectors.splice(0, s.vectors.length, ...kept, ...fresh.values());
+    s.saveVectors();
+    for (const [id, v] of fresh) found.set(id, v.vector);
+}
+
+/**
+ * Vectors for `memories` by id, embedding and persisting any that are
+ * missing or stale. Memories that could not be embedded are left out.
+ */
+export async function ensureVectors(s: PluginState, memories: MemoryEntry[]): Promise<Map<string, number[]>> {
+    const model = embeddingModel(s);
+    if (!model || memories.length === 0) return new Map();
+    if (model === LOCAL_MODEL) return ensureVectorsSync(s, memories);
+
+    const { found, missing } = lookup(s, memories, model);
+    if (missing.length > 0) {
+        const vectors = await remoteEmbed(s, missing.map((p) => memoryText(p.memory)));
+        if (vectors) store(s, model, missing, vectors, found);
+    }
+    return found;
+}
+
+/** Synchronous `ensureVectors` for exit-time paths — empty unless the local model is in use. */
+export function ensureVectorsSync(s: PluginState, memories: MemoryEntry[]): Map<string, number[]> {
+    if (embeddingModel(s) !== LOCAL_MODEL || memories.length === 0) return new Map();
+    const { found, missing } = lookup(s, memories, LOCAL_MODEL);
+    if (missing.length > 0) {
+        store(s, LOCAL_MODEL, missing, missing.map((p) => localEmbed(memoryText(p.memory))), found);
+    }
+    return found;
+}
+
+// ---- Similarity & hybrid scoring ----
+
+function similarities(model: string, query: number[], vectors: Map<string, number[]>): Map<string, number> {
+    const weights = model === LOCAL_MODEL ? dimensionIdf([...vectors.values()]) : undefined;
+    const result = new Map<string, number>();
+    for (const [id, v] of vectors) result.set(id, cosine(query, v, weights));
+    return result;
+}
+
+/** Cosine similarity of `text` to each of `memories`, by id. Empty when vectors are unavailable. */
+export async function vectorSimilarities(s: PluginState, text: string, memories: MemoryEntry[]): Promise<Map<string, number>> {
+    const model = embeddingModel(s);
+    if (!model || !text.trim()) return new Map();
+    if (model === LOCAL_MODEL) return vectorSimilaritiesSync(s, text, memories);
+
+    const vectors = await ensureVectors(s, memories);
+    if (vectors.size === 0) return new Map();
+    const query = (await remoteEmbed(s, [text]))?.[0];
+    return query ? similarities(model, query, vectors) : new Map();
+}
+
+/** Synchronous `vectorSimilarities` — empty unless the local model is in use. */
+export function vectorSimilaritiesSync(s: PluginState, text: string, memories: MemoryEntry[]): Map<string, number> {
+    if (embeddingModel(s) !== LOCAL_MODEL || !text.trim()) return new Map();
+    const vectors = ensureVectorsSync(s, memories);
+    return vectors.size > 0 ? similarities(LOCAL_MODEL, localEmbed(text), vectors) : new Map();
+}
+
+/**
+ * Blend a lexical score (0..1) with a vector similarity. Vector evidence
+ * only ever raises a score, so strong lexical matches are never diluted;
+ * similarities below `minSimilarity` are ignored.
+ */
+export function hybridScore(s: PluginState, lexical: number, vector: number | undefined): number {
+    if (vector === undefined || vector < s.config.embeddings.minSimilarity) return lexical;
+    const w = s.config.embeddings.vectorWeight;
+    return Math.max(lexical, (1 - w) * lexical + w * vector);
+}
+
+/**
+ * Rank memories for a free-text query by BM25 blended with vector
+ * similarity, best first. Memories sharing no words with the query are
+ * included when their vector similarity clears `minSimilarity`.
+ */
+export async function hybridSearch(s: PluginState, candidates: MemoryEntry[], query: string): Promise<MemoryEntry[]> {
+    const lexical = s.searchScored("memories", candidates, query);
+    if (tokenize(query).length === 0) return lexical.map((h) => h.item);
+    const vectors = await vectorSimilarities(s, query, candidates);
+    if (vectors.size === 0) return lexical.map((h) => h.item);
+
+    const top = lexical[0]?.score || 1;
+    const lexicalScores = new Map(lexical.map((h) => [h.item.id, h.score / top]));
+    return candidates
+        .map((m) => ({ m, score: hybridScore(s, lexicalScores.get(m.id) ?? 0, vectors.get(m.id)) }))
+        .filter((r) => r.score > 0)
+        .sort((a, b) => (Math.abs(b.score - a.score) > 1e-9 ? b.score - a.score : b.m.timestamp.localeCompare(a.m.timestamp)))
+        .map((r) => r.m);
+}
@@ -0,0 +1,210 @@
+/**
+ * Observation extractors — turn one tool call into structured observation
+ * fields (paths, diff hunks, command and exit code, test results, whether it
+ * wrote anything). Built-in extractors are keyed by tool name; unknown and MCP
+ * tools use the generic one. Config (`hooks.extractors`) and
+ * `registerExtractor` can add or override extractors.
+ */
+
+import type { Observation, ExtractorSpec, TestResults } from "./types";
+import { unifiedDiff } from "./diff";
+
+/** What a tool.execute.after call hands to an extractor. */
+export interface ToolCall {
+    tool: string;
+    args: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    title?: string;
+    output: string;
+}
+
+/** Fields an extractor fills in (the rest of the observation is common to all tools). */
+export type ExtractedFields = Pick<Observation, "isWriteAction" | "fileEdited" | "files" | "command" | "exitCode" | "diff" | "tests" | "query">;
+
+export type ObservationExtractor = (call: ToolCall) => ExtractedFields;
+
+/** Longest diff kept on an observation. */
+const MAX_DIFF_CHARS = 1500;
+
+/** Tool-name words that indicate a write / mutating action. */
+const WRITE_WORDS = [
+    "edit", "write", "create", "delete", "remove", "move", "rename",
+    "bash", "shell", "terminal", "exec", "run",
+    "insert", "replace", "patch", "apply", "update", "upload",
+];
+
+/** Shell commands that only read. */
+const READ_ONLY_COMMANDS = /^\s*(?:ls|cat|head|tail|less|pwd|echo|grep|rg|find|which|wc|tree|stat|file|git\s+(?:status|log|diff|show|branch|blame))\b/;
+
+/** Split a tool name into lower-case words: "runbook_reader" → runbook, reader; "writeFile" → write, file. */
+function toolWords(name: string): string[] {
+    return name.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Does the tool name contain a write word (whole word, allowing -s/-ed/-ing forms)? */
+export function isWriteTool(toolName: string): boolean {
+    const pattern = new RegExp(`^(?:${WRITE_WORDS.join("|")})(?:s|es|d|ed|ing)?$`);
+    return toolWords(toolName).some((w) => pattern.test(w));
+}
+
+function str(value: unknown): string | undefined {
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/** First string among `keys` in args, then metadata. */
+function pick(call: ToolCall, keys: string[]): string | undefined {
+    for (const source of [call.args, call.metadata]) {
+        for (const key of keys) {
+            const value = str(source[key]);
+            if (value) return value;
+        }
+    }
+    return undefined;
+}
+
+const PATH_KEYS = ["filePath", "file_path", "path", "file"];
+
+function truncateDiff(diff: string): string {
+    return diff.length > MAX_DIFF_CHARS ? `${diff.substring(0, MAX_DIFF_CHARS)}\n…` : diff;
+}
+
+/**
+ * Test counts from a test runner's summary (vitest, jest, pytest, mocha,
+ * cargo). The last count of each kind wins, since runners print per-file
+ * counts before the totals.
+ */
+export function parseTestResults(output: string): TestResults | undefined {
+    const counts = [...output.matchAll(/(\d+)\s+(passed|passing|failed|failing|skipped|pending|ignored)\b/gi)];
+    if (counts.length === 0) return undefined;
+    const result: TestResults = { passed: 0, failed: 0, skipped: 0 };
+    for (const [, n, word] of counts) {
+        const w = word.toLowerCase();
+        result[w.startsWith("pass") ? "passed" : w.startsWith("fail") ? "failed" : "skipped"] = Number(n);
+    }
+    return result;
+}
+
+// ---- Built-in extractors ----
+
+const readExtractor: ObservationExtractor = (call) => {
+    const file = pick(call, PATH_KEYS);
+    return { isWriteAction: false, files: file ? [file] : undefined };
+};
+
+const editExtractor: ObservationExtractor = (call) => {
+    const file = pick(call, PATH_KEYS);
+    let diff = str(call.metadata.diff);
+    const before = call.args.oldString ?? call.args.old_string;
+    const after = call.args.newString ?? call.args.new_string;
+    if (!diff && typeof before === "string" && typeof after === "string") {
+        diff = unifiedDiff(before, after, { fromLabel: file, toLabel: file, context: 1 });
+    }
+    return { isWriteAction: true, fileEdited: file, files: file ? [file] : undefined, diff: diff ? truncateDiff(diff) : undefined };
+};
+
+const writeExtractor: ObservationExtractor = (call) => {
+    const file = pick(call, PATH_KEYS);
+    return { isWriteAction: true, fileEdited: file, files: file ? [file] : undefined };
+};
+
+const bashExtractor: ObservationExtractor = (call) => {
+    const command = pick(call, ["command", "cmd"]);
+    const exit = call.metadata.exit ?? call.metadata.exitCode ?? call.metadata.exit_code;
+    return {
+        isWriteAction: !command || !READ_ONLY_COMMANDS.test(command),
+        command,
+        exitCode: typeof exit === "number" ? exit : undefined,
+        tests: parseTestResults(call.output),
+    };
+};
+
+const searchExtractor: ObservationExtractor = (call) => {
+    const dir = pick(call, ["path", "directory", "cwd"]);
+    return { isWriteAction: false, query: pick(call, ["pattern", "query", "glob"]), files: dir ? [dir] : undefined };
+};
+
+const webfetchExtractor: ObservationExtractor = (call) => ({ isWriteAction: false, query: pick(call, ["url"]) });
+
+/** Todo list updates are planning, not changes to the project. */
+const todoExtractor: ObservationExtractor = () => ({ isWriteAction: false });
+
+/**
+ * Fallback for unknown and MCP tools: a path from args, metadata or the title
+ * ("Edit src/foo.ts"), and a write when the tool name contains a write word.
+ */
+const genericExtractor: ObservationExtractor = (call) => {
+    let file = pick(call, PATH_KEYS);
+    if (!file && call.title) {
+        const titleMatch = call.title.match(/(?:Write|Edit|Create|Read)\s+(.+)/i);
+        if (titleMatch) file = titleMatch[1].trim();
+    }
+    const isWriteAction = isWriteTool(call.tool) || /^(?:Write|Edit|Create)\s/i.test(call.title || "");
+    return { isWriteAction, fileEdited: isWriteAction ? file : undefined, files: file ? [file] : undefined };
+};
+
+export const BUILT_IN_EXTRACTORS: Record<string, ObservationExtractor> = {
+    read: readExtractor,
+    edit: editExtractor,
+    multiedit: editExtractor,
+    patch: editExtractor,
+    write: writeExtractor,
+    bash: bashExtractor,
+    grep: searchExtractor,
+    glob: searchExtractor,
+    list: searchExtractor,
+    webfetch: webfetchExtractor,
+    todowrite: todoExtractor,
+    todoread: todoExtractor,
+    generic: genericExtractor,
+};
+
+/** Extractors registered at runtime (by other plugins), by tool name. */
+const registered = new Map<string, ObservationExtractor>();
+
+export function registerExtractor(tool: string, extractor: ObservationExtractor): void {
+    registered.set(tool, extractor);
+}
+
+export function unregisterExtractor(tool: string): void {
+    registered.delete(tool);
+}
+
+/** Build an extractor from a config spec. */
+function fromSpec(spec: ExtractorSpec): ObservationExtractor {
+    const base = BUILT_IN_EXTRACTORS[spec.base ?? "generic"] ?? genericExtractor;
+    return (call) => {
+        const fields = base(call);
+        const file = spec.pathArgs ? pick(call, spec.pathArgs) : undefined;
+        const command = spec.commandArg ? pick(call, [spec.commandArg]) : undefined;
+        const isWriteAction = spec.write ?? fields.isWriteAction;
+        const merged: ExtractedFields = { ...fields, isWriteAction };
+        if (file) merged.files = [file];
+        if (command) {
+            merged.command = command;
+            merged.tests = merged.tests ?? parseTestResults(call.output);
+        }
+        const touched = file ?? fields.fileEdited ?? fields.files?.[0];
+        merged.fileEdited = isWriteAction ? touched : undefined;
+        return merged;
+    };
+}
+
+/**
+ * The extractor for a tool: config (exact name, then the longest matching
+ * `prefix*`), then registered, then built-in, then generic.
+ */
+export function resolveExtractor(tool: string, specs: Record<string, ExtractorSpec> = {}): ObservationExtractor {
+    if (specs[tool]) return fromSpec(specs[tool]);
+    const wildcard = Object.keys(specs)
+        .filter((k) => k.endsWith("*") && tool.startsWith(k.slice(0, -1)))
+        .sort((a, b) => b.length - a.length)[0];
+    if (wildcard) return fromSpec(specs[wildcard]);
+    return registered.get(tool) ?? BUILT_IN_EXTRACTORS[tool] ?? genericExtractor;
+}
+
+/** Structured fields for one tool call. */
+export function extractObservation(call: ToolCall, specs?: Record<string, ExtractorSpec>): ExtractedFields {
+    const fields = resolveExtractor(call.tool, specs)(call);
+    // Drop empty fields so buffered observations stay small
+    return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as ExtractedFields;
+}
@@ -0,0 +1,173 @@
+/**
+ * Guide usefulness feedback — every guide injected into a prompt is recorded
+ * in the `injections` collection, and signals about whether it helped are
+ * attached to it: explicit (`buddy_feedback`) or implicit (the agent edits a
+ * file the memory mentions, or recalls the memory with `buddy_remember`).
+ * Aggregated per memory, they form a ranking prior for guide injection and
+ * compaction and point out cleanup candidates.
+ */
+
+import type { MemoryEntry, GuideInjection, FeedbackSignal } from "./types";
+import { generateId, nowTimestamp } from "./helpers";
+import { referencesFile } from "./file-context";
+import type { PluginState } from "./state";
+
+/** Oldest injections are dropped beyond this many. */
+const MAX_INJECTIONS = 5000;
+
+/** Weight of each signal in the usefulness estimate (negative = counts against). */
+const SIGNAL_WEIGHTS: Record<FeedbackSignal, number> = {
+    helpful: 1,
+    unhelpful: -1,
+    "file-edited": 0.5,
+    recalled: 0.5,
+};
+
+/** An injection that drew no signal at all counts slightly against the memory. */
+const IGNORED_WEIGHT = 0.2;
+
+/** An injection without signals counts as ignored only once it is this old — its session may still be using it. */
+const IGNORED_GRACE_MS = 2 * 60 * 60 * 1000;
+
+export interface GuideStats {
+    memoryId: string;
+    shown: number;
+    helpful: number;
+    unhelpful: number;
+    /** Implicit positive signals (file edits, recalls). */
+    implicit: number;
+    /** Injections that drew no signal within the grace window. */
+    ignored: number;
+    /** Smoothed usefulness in (0, 1); 0.5 means no evidence either way. */
+    usefulness: number;
+}
+
+/** Record the guides injected into a session's prompt. */
+export function recordInjections(s: PluginState, sessionId: string, guides: Array<{ memory: MemoryEntry; score: number }>): GuideInjection[] {
+    const injectedAt = nowTimestamp();
+    const records: GuideInjection[] = guides.map(({ memory, score }) => ({
+        id: generateId("inj"),
+        memoryId: memory.id,
+        sessionId,
+        score: Math.round(score * 1000) / 1000,
+        injectedAt,
+        signals: [],
+        updatedAt: injectedAt,
+        ...(memory.project ? { project: memory.project } : {}),
+    }));
+    s.injections.push(...records);
+    if (s.injections.length > MAX_INJECTIONS) s.injections.splice(0, s.injections.length - MAX_INJECTIONS);
+    s.saveInjections();
+    return records;
+}
+
+function addSignal(injection: GuideInjection, signal: FeedbackSignal): boolean {
+    if (injection.signals.includes(signal)) return false;
+    // An explicit verdict replaces the opposite one
+    if (signal === "helpful" || signal === "unhelpful") {
+        injection.signals = injection.signals.filter((x) => x !== "helpful" && x !== "unhelpful");
+    }
+    injection.signals.push(signal);
+    injection.updatedAt = nowTimestamp();
+    return true;
+}
+
+/**
+ * Explicit feedback on a memory. Attaches to its latest injection in the
+ * session (or anywhere, if it was never injected here); a memory that was
+ * never injected gets a feedback-only record with score 0.
+ */
+export function giveFeedback(s: PluginState, memory: MemoryEntry, helpful: boolean, sessionId?: string): GuideInjection {
+    const forMemory = s.injections.filter((i) => i.memoryId === memory.id);
+    let target = forMemory.filter((i) => i.sessionId === sessionId).pop() ?? forMemory.pop();
+    if (!target) {
+        target = recordInjections(s, sessionId || "default", [{ memory, score: 0 }])[0];
+    }
+    addSignal(target, helpful ? "helpful" : "unhelpful");
+    s.saveInjections();
+    return target;
+}
+
+/** Implicit signal: the session edited a file that one of its injected guides mentions. */
+export function noteFileEdited(s: PluginState, sessionId: string, filePath: string): number {
+    const byId = new Map(s.memories.map((m) => [m.id, m]));
+    let marked = 0;
+    for (const injection of s.injections) {
+        if (injection.sessionId !== sessionId) continue;
+        const memory = byId.get(injection.memoryId);
+        if (memory && referencesFile(filePath, [memory.title, memory.content], memory.provenance?.files) && addSignal(injection, "file-edited")) marked++;
+    }
+    if (marked > 0) s.saveInjections();
+    return marked;
+}
+
+/** Implicit signal: the session recalled memories it had been given as guides. */
+export function noteRecalled(s: PluginState, sessionId: string, memoryIds: string[]): number {
+    const ids = new Set(memoryIds);
+    let marked = 0;
+    for (const injection of s.injections) {
+        if (injection.sessionId === sessionId && ids.has(injection.memoryId) && addSignal(injection, "recalled")) marked++;
+    }
+    if (marked > 0) s.saveInjections();
+    return marked;
+}
+
+/** Aggregate feedback per memory id. Recent injections without signals yet count neither way. */
+export function guideStats(s: PluginState, now = Date.now()): Map<string, GuideStats> {
+    const stats = new Map<string, GuideStats>();
+    const totals = new Map<string, { positive: number; negative: number }>();
+    for (const injection of s.injections) {
+        let st = stats.get(injection.memoryId);
+        if (!st) {
+            st = { memoryId: injection.memoryId, shown: 0, helpful: 0, unhelpful: 0, implicit: 0, ignored: 0, usefulness: 0.5 };
+            stats.set(injection.memoryId, st);
+            totals.set(injection.memoryId, { positive: 0, negative: 0 });
+        }
+        const total = totals.get(injection.memoryId)!;
+        if (injection.score > 0) st.shown++;
+        if (injection.signals.length === 0 && now - Date.parse(injection.injectedAt) >= IGNORED_GRACE_MS) {
+            st.ignored++;
+            total.negative += IGNORED_WEIGHT;
+        }
+        for (const signal of injection.signals) {
+            if (signal === "helpful") st.helpful++;
+            else if (signal === "unhelpful") st.unhelpful++;
+            else st.implicit++;
+            const weight = SIGNAL_WEIGHTS[signal];
+            if (weight > 0) total.positive += weight;
+            else total.negative -= weight;
+        }
+    }
+    for (const [id, st] of stats) {
+        const { positive, negative } = totals.get(id)!;
+        st.usefulness = (positive + 1) / (positive + negative + 2);
+    }
+    return stats;
+}
+
+/** Ranking multiplier from feedback: 1 without evidence, between 0.5 and 1.5 otherwise. */
+export function usefulnessPrior(stats: GuideStats | undefined): number {
+    return 0.5 + (stats?.usefulness ?? 0.5);
+}
+
+/** Memories shown at least `minShown` times, least useful first. */
+export function leastUseful(s: PluginState, memories: MemoryEntry[], minShown = 3): Array<{ memory: MemoryEntry; stats: GuideStats }> {
+    const stats = guideStats(s);
+    return memories
+        .map((memory) => ({ memory, stats: stats.get(memory.id) }))
+        .filter((r): r is { memory: MemoryEntry; stats: GuideStats } => !!r.stats && r.stats.shown >= minShown && r.stats.usefulness < 0.5)
+        .sort((a, b) => a.stats.usefulness - b.stats.usefulness);
+}
+
+/**
+ * Order memories for compaction: newest first, adjusted by the feedback prior
+ * so a memory that keeps proving useful outranks slightly newer ones.
+ */
+export function rankForCompaction(s: PluginState, memories: MemoryEntry[]): MemoryEntry[] {
+    const stats = guideStats(s);
+    return [...memories]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .map((memory, rank) => ({ memory, score: usefulnessPrior(stats.get(memory.id)) / (1 + rank / 5) }))
+        .sort((a, b) => b.score - a.score)
+        .map((r) => r.memory);
+}
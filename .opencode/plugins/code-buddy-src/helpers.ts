@@ -2,7 +2,7 @@
  * Pure utility functions — no side effects, no state.
  */
 
-import type { MemoryEntry, MemoryCategory } from "./types";
+import type { MemoryEntry, MemoryCategory, MemoryProvenance } from "./types";
 import { MEMORY_TYPE_CATEGORY } from "./types";
 
 // ---- ID generation ----
@@ -13,27 +13,25 @@ export const generateId = (prefix: string): string =>
 export const generateConfirmCode = (): string =>
     Math.random().toString(36).substring(2, 8).toUpperCase();
 
-// ---- Search ----
+// ---- Record display ----
 
-/**
- * Case-insensitive text search across multiple fields of an item array.
- * Supports string and string-array fields.
- */
+/** Short human-readable label for any stored record (memory, entity, relation, mistake). */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function searchText<T extends Record<string, any>>(
-    items: T[],
-    query: string,
-    fields: string[],
-): T[] {
-    const lower = query.toLowerCase();
-    return items.filter((item) =>
-        fields.some((field) => {
-            const value = item[field];
-            if (typeof value === "string") return value.toLowerCase().includes(lower);
-            if (Array.isArray(value)) return value.some((v) => String(v).toLowerCase().includes(lower));
-            return false;
-        }),
-    );
+export function recordLabel(item: Record<string, any>): string {
+    if (item.title) return String(item.title);
+    if (item.name) return String(item.name);
+    if (item.action) return String(item.action);
+    if (item.from && item.to) return `${item.from} --[${item.type}]--> ${item.to}`;
+    return String(item.id);
+}
+
+/** One-line provenance summary: source · session · branch@commit · model. */
+export function formatProvenance(p: MemoryProvenance): string {
+    const parts: string[] = [p.source];
+    if (p.sessionId) parts.push(`session ${p.sessionId}`);
+    if (p.gitBranch || p.gitCommit) parts.push(`${p.gitBranch || "detached"}${p.gitCommit ? `@${p.gitCommit.substring(0, 7)}` : ""}`);
+    if (p.model) parts.push(p.model);
+    return parts.join(" · ");
 }
 
 // ---- Memory helpers ----
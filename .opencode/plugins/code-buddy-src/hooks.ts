@@ -8,30 +8,22 @@
  */
 
 import * as fs from "node:fs";
-import type { MemoryType, MemoryEntry, ErrorType, Observation } from "./types";
+import type { MemoryType, MemoryEntry, ErrorType, Observation, FileDiff, ExtractorSpec } from "./types";
 import { MEMORY_TYPE_CATEGORY, VALID_MEMORY_TYPES } from "./types";
-import { generateId, formatTime, nowTimestamp, searchText, calculateSimilarity, calculateGuideRelevance, sanitizeForInjection } from "./helpers";
+import { generateId, formatTime, nowTimestamp, calculateSimilarity } from "./helpers";
 import { detectSessionType, saveMemoryWithSyncDedup } from "./dedup";
 import { askAI, addMemoryWithDedup, extractJSON, extractJSONArray, isLLMAvailable } from "./llm";
+import { vectorSimilarities } from "./embeddings";
+import { rankGuides, renderGuides, estimateTokens, isTopicShift, topicVector } from "./guides";
+import { recordInjections, noteFileEdited } from "./feedback";
+import { rankPitfalls, renderPitfalls } from "./pitfalls";
+import { findFileContext, renderFileContext } from "./file-context";
+import { buildCompactionContext } from "./compaction";
+import { redactText, redactValue } from "./redact";
+import { extractObservation, resolveExtractor, BUILT_IN_EXTRACTORS } from "./extractors";
+import { PendingSnapshots, recordFileEdit, sessionDiffs, diffStat, renderDiffs } from "./session-diffs";
 import type { PluginState } from "./state";
 
-// ============================================
-// Write-action detection for observation filter
-// ============================================
-
-/** Tool name patterns that indicate a write / mutating action. */
-const WRITE_TOOL_PATTERNS = [
-    "edit", "write", "create", "delete", "remove", "move", "rename",
-    "bash", "shell", "terminal", "exec", "run",
-    "insert", "replace", "patch", "apply",
-];
-
-/** Returns true if the tool name looks like a write/mutating action. */
-function isWriteTool(toolName: string): boolean {
-    const lower = toolName.toLowerCase();
-    return WRITE_TOOL_PATTERNS.some((p) => lower.includes(p));
-}
-
 /** Safely serialize a value — handles circular references and Error objects. */
 function safeStringify(v: unknown, maxLen = 200): string {
     if (typeof v === "string") return v.substring(0, maxLen);
@@ -65,6 +57,18 @@ function isDelegationTool(toolName: string): boolean {
     return DELEGATION_PATTERNS.some((p) => lower.includes(p));
 }
 
+/**
+ * The file a tool call may edit, from its args alone — all tool.execute.before
+ * has — so both hooks key its "before" snapshot the same way. The generic
+ * extractor may only learn from the result's title that a tool wrote, so for
+ * those tools any path in the args counts.
+ */
+function snapshotPath(tool: string, args: Record<string, unknown>, specs?: Record<string, ExtractorSpec>): string | undefined {
+    const fields = extractObservation({ tool, args, metadata: {}, output: "" }, specs);
+    if (fields.fileEdited) return fields.fileEdited;
+    return resolveExtractor(tool, specs) === BUILT_IN_EXTRACTORS.generic ? fields.files?.[0] : undefined;
+}
+
 // ============================================
 // Factory — returns all hook handlers
 // ============================================
@@ -73,7 +77,17 @@ export function createHooks(s: PluginState) {
     // ---- Per-session state (isolated across agents/subagents) ----
     type FlushState = "idle" | "started" | "completed";
     const sessionFlushState = new Map<string, FlushState>();
-    const sessionGuidesInjected = new Map<string, boolean>();
+    /**
+     * Guide injections so far in each session's current cycle, the memories
+     * already shown, and vectors of the prompts and guides injected (for topic-shift detection).
+     */
+    const sessionGuides = new Map<string, { injections: number; shown: Set<string>; context: number[][] }>();
+    /** Files whose notes were already appended to a tool output, per session. */
+    const sessionFileNotes = new Map<string, Set<string>>();
+    /** File content read in tool.execute.before, until the edit's tool.execute.after. */
+    const pendingSnapshots = new PendingSnapshots();
+    /** Journal files whose observations could not be saved — kept on exit so the next start replays them. */
+    const unsavedJournals = new Set<string>();
 
     /** Last delegation context captured from orchestrator — assigned to next new session. */
     let pendingDelegationContext: string | undefined;
@@ -94,23 +108,33 @@ export function createHooks(s: PluginState) {
         // Snapshot and clear this session's buffer only
         const snapshot = [...observations];
         s.clearSessionObservations(sessionId);
+        const files = s.takeFileSnapshots(sessionId);
+        const journalFile = s.journal.rotate(sessionId);
         // Reset guide state for this session's next cycle
-        sessionGuidesInjected.delete(sessionId);
+        sessionGuides.delete(sessionId);
+        sessionFileNotes.delete(sessionId);
 
         const delegationCtx = s.getDelegationContext(sessionId);
         s.log(`[code-buddy] 📤 Flushing session ${sessionId} (${reason}, ${snapshot.length} buffered${delegationCtx ? ", has delegation context" : ""})`);
 
         try {
-            await handleSessionIdle(s, snapshot, delegationCtx);
+            await handleSessionIdle(s, snapshot, delegationCtx, sessionDiffs(snapshot, files, s.config.redaction));
             sessionFlushState.set(sessionId, "completed");
             s.log(`[code-buddy] ✅ Async flush completed for session ${sessionId} (${reason})`);
         } catch (err) {
             s.log(`[code-buddy] ❌ Async flush failed for session ${sessionId} (${reason}):`, err);
-            // Restore snapshot for sync fallback
-            for (const obs of snapshot) s.pushObservation(obs);
-            try { flushSessionObservationsSync(s, sessionId); } catch { /* best effort */ }
+            // Sync fallback on the snapshot itself: it is still in the set-aside journal, so it isn't buffered (and journaled) again
+            try {
+                flushObservationBufSync(s, snapshot, sessionDiffs(snapshot, files, s.config.redaction));
+            } catch (syncErr) {
+                s.log(`[code-buddy] ❌ Sync fallback failed for session ${sessionId}, keeping its journal for replay:`, syncErr);
+                sessionFlushState.set(sessionId, "completed");
+                if (journalFile) unsavedJournals.add(journalFile);
+                return;
+            }
             sessionFlushState.set(sessionId, "completed");
         }
+        s.journal.discard(journalFile);
     };
 
     // Safety net: flush ALL sessions on process exit
@@ -119,28 +143,59 @@ export function createHooks(s: PluginState) {
             if (getFlushState(sessionId) === "completed") continue;
             if (buf.observations.length < s.config.hooks.observeMinActions) continue;
             s.log(`[code-buddy] 📤 Process exiting — sync saving session ${sessionId} (${buf.observations.length} observations)`);
+            const journalFile = s.journal.rotate(sessionId);
             try {
                 flushSessionObservationsSync(s, sessionId);
+                s.journal.discard(journalFile);
             } catch (err) {
-                s.log(`[code-buddy] Sync flush error (session ${sessionId}):`, err);
+                s.log(`[code-buddy] Sync flush error (session ${sessionId}), keeping its journal for replay:`, err);
+                if (journalFile) unsavedJournals.add(journalFile);
             }
         }
+        // Everything else was saved (or is below the recording threshold) — nothing left to replay
+        s.journal.discardAll(unsavedJournals);
+        s.flushVectors();
     };
     process.on("beforeExit", onExit);
     process.on("exit", onExit);
 
+    // Replay journals of processes that died (crash, SIGKILL) before flushing their sessions
+    const replayOrphanedJournals = async () => {
+        for (const orphan of s.journal.claimOrphans()) {
+            s.log(`[code-buddy] ♻️ Replaying ${orphan.observations.length} journaled observation(s) of session ${orphan.sessionId}`);
+            try {
+                await handleSessionIdle(s, orphan.observations, orphan.delegationContext);
+            } catch (err) {
+                s.log(`[code-buddy] ❌ Journal replay failed for session ${orphan.sessionId}:`, err);
+                try {
+                    flushObservationBufSync(s, orphan.observations);
+                } catch (syncErr) {
+                    // The claimed file outlives this process and is replayed again by the next window
+                    s.log(`[code-buddy] ❌ Sync fallback failed too, keeping ${orphan.file}:`, syncErr);
+                    continue;
+                }
+            }
+            s.journal.discard(orphan.file);
+        }
+    };
+    replayOrphanedJournals().catch((err) => s.log("[code-buddy] Journal replay error:", err));
+
     return {
         // ---- chat.message: inject relevant guides into user prompt ----
         // This fires when the user sends a message, BEFORE the agent starts thinking.
         // Perfect for plan mode and any scenario — the agent receives experience upfront.
         "chat.message": async (
-            input: { sessionID: string; agent?: string },
+            input: { sessionID: string; agent?: string; model?: { providerID: string; modelID: string } },
             output: { message: { role: string; system?: string }; parts: Array<{ type: string; text?: string; [key: string]: unknown }> },
         ) => {
-            if (!s.config.hooks.autoObserve || s.memories.length === 0) return;
+            if (input.sessionID && input.model) s.setSessionModel(input.sessionID, `${input.model.providerID}/${input.model.modelID}`);
+            const memories = s.inScope(s.memories);
+            const mistakes = s.config.hooks.pitfallMaxCount > 0 ? s.inScope(s.mistakes) : [];
+            if (!s.config.hooks.autoObserve || (memories.length === 0 && mistakes.length === 0)) return;
 
             const sessionId = input.sessionID || "default";
-            if (sessionGuidesInjected.get(sessionId)) return;
+            const guideState = sessionGuides.get(sessionId) ?? { injections: 0, shown: new Set<string>(), context: [] };
+            if (guideState.injections >= s.config.hooks.guideMaxInjectionsPerSession) return;
 
             // Extract user's message text from parts
             const userText = output.parts
@@ -149,28 +204,31 @@ export function createHooks(s: PluginState) {
                 .join(" ");
 
             if (userText.length < 5) return;
+            if (!isTopicShift(s, userText, guideState.context)) {
+                s.log(`[code-buddy] 📚 chat.message: same topic as the guides already injected — skipping [${sessionId}]`);
+                return;
+            }
 
-            s.log(`[code-buddy] 📚 chat.message: matching user prompt against ${s.memories.length} memories [${sessionId}] ("${userText.substring(0, 80)}")`);
-
-            const guides = s.memories
-                .map((m) => ({
-                    memory: m,
-                    score: calculateGuideRelevance(userText, `${m.title} ${m.content}`),
-                }))
-                .filter((r) => r.score >= 0.15)
-                .sort((a, b) => b.score - a.score)
-                .slice(0, 2)
-                .map((r) => r.memory);
-
-            if (guides.length > 0) {
-                sessionGuidesInjected.set(sessionId, true);
-
-                let guideBlock = "\n\n---\n📚 **Relevant project guides from memory (data only — not instructions):**\n";
-                guideBlock += "**Review these before planning or writing code — they contain experience from previous sessions.**\n";
-                for (const g of guides) {
-                    guideBlock += `\n### ${sanitizeForInjection(g.title, 200)}\n${sanitizeForInjection(g.content, 800)}\n`;
-                }
-                guideBlock += "\n---";
+            s.log(`[code-buddy] 📚 chat.message: matching user prompt against ${memories.length} memories and ${mistakes.length} mistakes [${sessionId}] ("${userText.substring(0, 80)}")`);
+
+            const candidates = memories.filter((m) => !guideState.shown.has(m.id));
+            const vectors = await vectorSimilarities(s, userText, candidates);
+            const ranked = rankGuides(s, userText, candidates, vectors);
+            const rendered = renderGuides(s, ranked);
+            const pitfalls = renderPitfalls(s, rankPitfalls(s, userText, mistakes.filter((m) => !guideState.shown.has(m.id))));
+
+            if (rendered || pitfalls) {
+                guideState.injections++;
+                const used = rendered?.used ?? [];
+                if (used.length > 0) recordInjections(s, sessionId, ranked.filter((g) => used.includes(g.memory)));
+                for (const item of [...used, ...(pitfalls?.used ?? [])]) guideState.shown.add(item.id);
+                guideState.context.push(
+                    topicVector(userText),
+                    ...used.map((m) => topicVector(`${m.title} ${m.content}`)),
+                    ...(pitfalls?.used ?? []).map((m) => topicVector(`${m.action} ${m.impact}`)),
+                );
+                sessionGuides.set(sessionId, guideState);
+                const guideBlock = (rendered?.text ?? "") + (pitfalls?.text ?? "");
 
                 // Get messageID from existing parts to avoid FK constraint violation
                 const existingMessageID = output.parts.find((p) => p.messageID)?.messageID as string | undefined;
@@ -185,7 +243,7 @@ export function createHooks(s: PluginState) {
                     synthetic: true,
                 });
 
-                s.log(`[code-buddy] 📚 Injected ${guides.length} guide(s) into user prompt [${sessionId}]`);
+                s.log(`[code-buddy] 📚 Injected ${used.length} guide(s) and ${pitfalls?.used.length ?? 0} pitfall(s) (~${estimateTokens(guideBlock)} tokens) into user prompt [${sessionId}]`);
             } else {
                 s.log(`[code-buddy] 📚 No matching guides found for user prompt [${sessionId}]`);
             }
@@ -204,22 +262,27 @@ export function createHooks(s: PluginState) {
             }
         },
 
-        // ---- tool.execute.before: env file protection ----
-        "tool.execute.before": async (_input: { tool: string }, output: { args: { filePath?: string } }) => {
-            if (!s.config.hooks.protectEnv) return;
-
-            const filePath = output.args?.filePath || "";
-            const protectedPatterns = [".env", ".env.local", ".env.production", "secrets"];
-            for (const pattern of protectedPatterns) {
-                if (filePath.includes(pattern)) {
-                    s.log(`[code-buddy] ⚠️ Protected file access blocked: ${filePath}`);
-                    throw new Error(`[Code Buddy] Access to protected file "${filePath}" is blocked. Set config.hooks.protectEnv = false to disable.`);
+        // ---- tool.execute.before: env file protection, snapshot of files about to be edited ----
+        "tool.execute.before": async (input: { tool: string; sessionID?: string }, output: { args: { filePath?: string; [key: string]: unknown } }) => {
+            if (s.config.hooks.protectEnv) {
+                const filePath = output.args?.filePath || "";
+                const protectedPatterns = [".env", ".env.local", ".env.production", "secrets"];
+                for (const pattern of protectedPatterns) {
+                    if (filePath.includes(pattern)) {
+                        s.log(`[code-buddy] ⚠️ Protected file access blocked: ${filePath}`);
+                        throw new Error(`[Code Buddy] Access to protected file "${filePath}" is blocked. Set config.hooks.protectEnv = false to disable.`);
+                    }
                 }
             }
+
+            if (!s.config.hooks.autoObserve || input.tool.startsWith("buddy_")) return;
+            if ((s.config.hooks.observeIgnoreTools || []).includes(input.tool)) return;
+            const filePath = snapshotPath(input.tool, output.args || {}, s.config.hooks.extractors);
+            if (filePath) pendingSnapshots.capture(input.sessionID || "default", filePath);
         },
 
         // ---- tool.execute.after: background observer ----
-        "tool.execute.after": async (input: { tool: string; args?: any }, output: { title?: string; output: string; metadata: any }) => {
+        "tool.execute.after": async (input: { tool: string; sessionID?: string; args?: any }, output: { title?: string; output: string; metadata: any }) => {
             if (!s.config.hooks.autoObserve) return;
 
             const ignoreList = s.config.hooks.observeIgnoreTools || [];
@@ -231,7 +294,7 @@ export function createHooks(s: PluginState) {
 
             // ---- Delegation detection: capture orchestrator's intent ----
             if (isDelegationTool(input.tool)) {
-                const delegationPrompt = String(inputArgs.prompt || inputArgs.description || inputArgs.message || "");
+                const delegationPrompt = redactText(String(inputArgs.prompt || inputArgs.description || inputArgs.message || ""), s.config.redaction);
                 if (delegationPrompt) {
                     // Try to associate with the spawned session directly
                     const targetSession = extractSessionId(meta);
@@ -257,21 +320,44 @@ export function createHooks(s: PluginState) {
 
             const outputStr = typeof output.output === "string" ? output.output : "";
 
+            // Structured fields (paths, diff, command, exit code, tests) from the tool's extractor
+            const fields = extractObservation(
+                { tool: input.tool, args: inputArgs, metadata: meta, title: output.title, output: outputStr },
+                s.config.hooks.extractors,
+            );
+            const { fileEdited, isWriteAction } = fields;
+
             const errorPatterns = /\b(error|Error|ERROR|failed|FAILED|FAIL|exception|Exception|panic|fatal|Fatal|ENOENT|EACCES|TypeError|ReferenceError|SyntaxError)\b/;
-            const hasError = s.config.hooks.autoErrorDetect && errorPatterns.test(outputStr);
+            const hasError = s.config.hooks.autoErrorDetect
+                && (errorPatterns.test(outputStr) || (fields.exitCode ?? 0) !== 0 || (fields.tests?.failed ?? 0) > 0);
+
+            // First read or edit of a file in this session: append what memory knows about it
+            const touchedFile = fileEdited ?? (fields.query ? undefined : fields.files?.[0]);
+            if (touchedFile && s.config.hooks.fileContext) {
+                const noted = sessionFileNotes.get(sessionId) ?? new Set<string>();
+                if (!noted.has(touchedFile)) {
+                    noted.add(touchedFile);
+                    sessionFileNotes.set(sessionId, noted);
+                    const note = renderFileContext(touchedFile, findFileContext(s, touchedFile), s.config.hooks.fileContextMaxItems);
+                    if (note && typeof output.output === "string") {
+                        output.output += note;
+                        s.log(`[code-buddy] 📎 Appended file notes for ${touchedFile} to ${input.tool} output [${sessionId}]`);
+                    }
+                }
+            }
 
-            // Extract file path from multiple sources (metadata, input args, title)
-            let fileEdited = (meta.filePath || meta.path || meta.file
-                || inputArgs.filePath || inputArgs.file_path || inputArgs.path) as string | undefined;
+            // Keep the file's content before its first edit and after its latest one for the session diff.
+            // Same key as tool.execute.before, which only has the hook's sessionID and the args;
+            // taken even when the call edited nothing, so it doesn't linger
+            const snapshotFile = snapshotPath(input.tool, inputArgs, s.config.hooks.extractors) ?? fileEdited;
+            const before = snapshotFile ? pendingSnapshots.take(input.sessionID || "default", snapshotFile) : undefined;
+            if (fileEdited) recordFileEdit(s, sessionId, fileEdited, before);
 
-            // Also try to extract from the title (e.g. "Write index.html", "Edit src/foo.ts")
-            if (!fileEdited && output.title) {
-                const titleMatch = output.title.match(/(?:Write|Edit|Create|Read)\s+(.+)/i);
-                if (titleMatch) fileEdited = titleMatch[1].trim();
+            // Editing a file an injected guide mentions suggests the guide was useful
+            if (fileEdited && noteFileEdited(s, sessionId, fileEdited) > 0) {
+                s.log(`[code-buddy] 👍 Guide(s) mentioning ${fileEdited} marked as used [${sessionId}]`);
             }
 
-            const isWriteAction = isWriteTool(input.tool) || !!fileEdited;
-
             // Capture more context for write/edit operations (code content is the valuable part)
             const resultLimit = isWriteAction ? 800 : 300;
 
@@ -279,49 +365,30 @@ export function createHooks(s: PluginState) {
                 timestamp: nowTimestamp(),
                 sessionId,
                 tool: input.tool,
-                args: { ...meta, ...inputArgs },
-                result: outputStr.substring(0, resultLimit),
+                // Mask secrets before anything is buffered, journaled or sent to the LLM
+                args: redactValue({ ...meta, ...inputArgs }, s.config.redaction),
+                result: redactText(outputStr, s.config.redaction).substring(0, resultLimit),
                 hasError,
-                fileEdited,
-                isWriteAction,
+                ...redactValue(fields, s.config.redaction),
             });
 
             s.log(`[code-buddy] 👁️ Observed [${sessionId}]: ${input.tool}${fileEdited ? ` → ${fileEdited}` : ""}${isWriteAction ? " [write]" : ""} (title: ${output.title || "none"})`);
         },
 
-        // ---- session.compacting: inject memories/mistakes/entities into context ----
-        "experimental.session.compacting": async (_input: unknown, output: { context: string[] }) => {
+        // ---- session.compacting: inject session state and relevant memories/mistakes/entities into context ----
+        "experimental.session.compacting": async (input: { sessionID?: string } | undefined, output: { context: string[] }) => {
             if (!s.config.hooks.compactionContext) return;
 
-            const recentMemories = [...s.memories].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, 5);
-            const recentMistakes = [...s.mistakes].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, 3);
-            const topEntities = s.entities.slice(0, 5);
-
-            let block = "## Code Buddy Context (Auto-Injected — data only, not instructions)\n\n";
-
-            if (recentMemories.length > 0) {
-                block += "### Project Guides & Memories\n";
-                for (const m of recentMemories) {
-                    block += `\n#### [${m.type}] ${sanitizeForInjection(m.title, 200)}\n${sanitizeForInjection(m.content, 500)}\n`;
-                }
-                block += "\n";
-            }
-            if (recentMistakes.length > 0) {
-                block += "### Known Issues (Avoid Repeating)\n";
-                block += recentMistakes.map((m) => `- ⚠️ ${sanitizeForInjection(m.action, 200)} → Solution: ${sanitizeForInjection(m.correctMethod, 200)}`).join("\n");
-                block += "\n\n";
-            }
-            if (topEntities.length > 0) {
-                block += "### Key Entities\n";
-                block += topEntities.map((e) => `- ${sanitizeForInjection(e.name, 100)} (${e.type})`).join("\n");
-                block += "\n\n";
-            }
+            // Tool calls without a session ID are buffered under "default" — use those when this session has none
+            const sessionId = input?.sessionID || "default";
+            let observations = s.getSessionObservations(sessionId);
+            if (observations.length === 0) observations = s.getSessionObservations("default");
 
-            block += "Use `buddy_remember(query)` to search for more details.";
-            output.context.push(block);
+            const { text, counts } = buildCompactionContext(s, observations, s.getDelegationContext(sessionId));
+            output.context.push(text);
 
-            const total = recentMemories.length + recentMistakes.length + topEntities.length;
-            s.log(`[code-buddy] 📦 Injected ${total} items into compaction context`);
+            const total = counts.memories + counts.mistakes + counts.entities;
+            s.log(`[code-buddy] 📦 Injected ${total} items and a summary of ${observations.length} observation(s) into compaction context (~${estimateTokens(text)} tokens) [${sessionId}]`);
         },
     };
 }
@@ -330,7 +397,7 @@ export function createHooks(s: PluginState) {
 // Internal handlers
 // ============================================
 
-async function handleSessionIdle(s: PluginState, buf: Observation[], delegationContext?: string): Promise<void> {
+async function handleSessionIdle(s: PluginState, buf: Observation[], delegationContext?: string, diffs: FileDiff[] = sessionDiffs(buf)): Promise<void> {
     s.session.lastActivity = Date.now();
 
     // Reminder (only when NOT in fullAuto mode)
@@ -355,9 +422,9 @@ async function handleSessionIdle(s: PluginState, buf: Observation[], delegationC
 
     try {
         if (s.config.hooks.fullAuto) {
-            await processFullAutoObserver(s, buf, delegationContext);
+            await processFullAutoObserver(s, buf, diffs, delegationContext);
         } else {
-            await processSingleSummaryObserver(s, buf, delegationContext);
+            await processSingleSummaryObserver(s, buf, diffs, delegationContext);
         }
     } catch (err) {
         s.log("[code-buddy] Observer error:", err);
@@ -382,6 +449,9 @@ interface AutoResponse {
 
 // ---- Rule-based fallback for when AI classification fails ----
 
+/** Diff characters quoted in a fallback entry's summary. */
+const FALLBACK_DIFF_CHARS = 800;
+
 /** Extract a short, readable name from a file path. */
 function shortFileName(filePath: string): string {
     return filePath.split("/").pop()?.replace(/\.[^.]+$/, "") || "";
@@ -392,11 +462,12 @@ function describeObservation(o: Observation): string | null {
     const args = o.args || {};
 
     // Bash/shell commands — extract the actual command
-    const cmd = args.command as string | undefined;
+    const cmd = (o.command ?? args.command) as string | undefined;
     if (cmd) {
         // Truncate long commands, keep the first meaningful part
         const short = cmd.split("&&")[0].split("|")[0].trim();
-        return short.length > 60 ? `${short.substring(0, 57)}...` : short;
+        const desc = short.length > 60 ? `${short.substring(0, 57)}...` : short;
+        return o.tests ? `${desc} (${o.tests.passed} passed, ${o.tests.failed} failed)` : desc;
     }
 
     // File operations — show file name and action
@@ -555,12 +626,13 @@ Respond with ONLY the cleaned summary text, no explanation.`;
  *
  * Uses analyzeFileContent to extract structural understanding from
  * edited files (game loops, state patterns, layout strategy, etc.)
- * instead of grabbing raw code first-lines.
+ * instead of grabbing raw code first-lines. Fixes quote the session diff.
  */
 function buildFallbackEntries(
     buf: Observation[],
     editedFiles: string[],
     hasErrors: boolean,
+    diffs: FileDiff[],
 ): AutoEntry[] {
     const entries: AutoEntry[] = [];
     const { intent, type } = classifyIntent(buf, editedFiles, hasErrors);
@@ -630,14 +702,20 @@ function buildFallbackEntries(
             // Join the structural insights into a readable summary
             summary = analyses.slice(0, 15).join(". ").replace(/\.\./g, ".");
         } else {
-            // No file-level insights — try bash command descriptions
+            // No file-level insights — describe the changes, then bash commands
             const cmds = buf
                 .filter((o) => o.args?.command)
                 .map((o) => String(o.args!.command).split("&&")[0].trim().substring(0, 60));
-            summary = cmds.length > 0
-                ? `Ran: ${cmds.slice(0, 3).join(", ")}`
+            const parts: string[] = [];
+            if (diffs.length > 0) parts.push(`Changed ${diffStat(diffs)}`);
+            if (cmds.length > 0) parts.push(`Ran: ${cmds.slice(0, 3).join(", ")}`);
+            summary = parts.length > 0
+                ? parts.join(". ")
                 : `${verb} ${editedFiles.map((f) => f.split("/").pop()).join(", ")}`;
         }
+        if (intent === "debugging" && diffs.length > 0) {
+            summary += `\n\nFix:\n${renderDiffs(diffs, FALLBACK_DIFF_CHARS)}`;
+        }
     } else {
         // No file edits — describe from commands
         const cmds = buf
@@ -682,13 +760,15 @@ function buildFallbackEntries(
         const errorFile = errorObs[0]?.fileEdited
             ? shortFileName(errorObs[0].fileEdited)
             : "unknown";
+        const fixDiff = diffs.find((d) => d.file === errorObs[0]?.fileEdited);
 
         entries.push({
             category: "error",
             title: `Gotcha in ${errorFile}`.substring(0, 60),
-            summary: errorMessages.length > 0
+            summary: (errorMessages.length > 0
                 ? `Error: ${errorMessages[0]}`
-                : `Error encountered in ${errorFile} during ${intent}`,
+                : `Error encountered in ${errorFile} during ${intent}`)
+                + (fixDiff ? `\n\nFix:\n${renderDiffs([fixDiff], FALLBACK_DIFF_CHARS)}` : ""),
             type: "bugfix",
             tags: [...inferTags(errorObs, editedFiles), "gotcha"],
         });
@@ -697,19 +777,43 @@ function buildFallbackEntries(
     return entries;
 }
 
-// ---- Full Auto: produce multiple categorised entries ----
+// ---- LLM prompt helpers ----
 
-async function processFullAutoObserver(s: PluginState, buf: Observation[], delegationContext?: string): Promise<void> {
-    const hasErrors = buf.some((o) => o.hasError);
-    const editedFiles = [...new Set(buf.filter((o) => o.fileEdited).map((o) => o.fileEdited as string))];
+/** Diff characters included in an observer prompt. */
+const PROMPT_DIFF_CHARS = 4000;
+
+/** Edit arguments whose content the session diff already shows. */
+const EDIT_CONTENT_ARGS = new Set(["old_string", "oldString", "new_string", "newString", "old", "new", "content", "diff"]);
 
-    const observationSummary = buf.map((o) => {
+/**
+ * One line per observation for the observer prompts. Edit contents are left
+ * out for files that have a session diff — the prompt shows the diff instead.
+ */
+function formatObservations(buf: Observation[], diffs: FileDiff[]): string {
+    const diffed = new Set(diffs.map((d) => d.file));
+    return buf.map((o) => {
         const time = formatTime(o.timestamp);
-        const argsStr = o.args
-            ? ` (${Object.entries(o.args).map(([k, v]) => `${k}: ${safeStringify(v)}`).join(", ")})`
+        const skipContent = o.fileEdited !== undefined && diffed.has(o.fileEdited);
+        const args = Object.entries(o.args || {}).filter(([k]) => !(skipContent && EDIT_CONTENT_ARGS.has(k)));
+        const argsStr = args.length > 0
+            ? ` (${args.map(([k, v]) => `${k}: ${safeStringify(v)}`).join(", ")})`
             : "";
         return `[${time}] ${o.tool}${argsStr}${o.result ? `\n  → ${o.result}` : ""}${o.hasError ? " ❌ ERROR" : ""}`;
     }).join("\n");
+}
+
+/** The session diff as a prompt section (empty without edits). */
+function diffBlock(diffs: FileDiff[]): string {
+    return diffs.length > 0 ? `\n🔀 Changes made (unified diff per file):\n${renderDiffs(diffs, PROMPT_DIFF_CHARS)}\n` : "";
+}
+
+// ---- Full Auto: produce multiple categorised entries ----
+
+async function processFullAutoObserver(s: PluginState, buf: Observation[], diffs: FileDiff[], delegationContext?: string): Promise<void> {
+    const hasErrors = buf.some((o) => o.hasError);
+    const editedFiles = [...new Set(buf.filter((o) => o.fileEdited).map((o) => o.fileEdited as string))];
+
+    const observationSummary = formatObservations(buf, diffs);
 
     // Delegation context tells the AI classifier WHY this work was done
     const delegationBlock = delegationContext
@@ -722,7 +826,7 @@ Observations:
 ${observationSummary}
 ${hasErrors ? "\n⚠️ Some observations contain errors." : ""}
 ${editedFiles.length > 0 ? `\n📝 Files edited: ${editedFiles.join(", ")}` : ""}
-
+${diffBlock(diffs)}
 Extract knowledge that answers these questions for a future developer:
 
 1. **Mental model** — How does the system work conceptually? What are the core data structures, how does state flow, what's the main algorithm? (e.g. "Snake is an array of {x,y} coords. Movement = unshift new head, pop tail. Growth = skip the pop.")
@@ -768,7 +872,7 @@ Respond ONLY with valid JSON:
 
     if (entries.length === 0) {
         // Rule-based fallback — extract meaningful info from observations
-        const fallback = buildFallbackEntries(buf, editedFiles, hasErrors);
+        const fallback = buildFallbackEntries(buf, editedFiles, hasErrors, diffs);
         // Refine rule-based summaries with LLM (no-op if LLM unavailable)
         for (const entry of fallback) {
             entry.summary = await refineWithLLM(s, entry.summary);
@@ -786,6 +890,7 @@ Respond ONLY with valid JSON:
             title: entry.title,
             content: entry.summary,
             tags: [...new Set([...(entry.tags || []), "auto-observed", `auto-${entry.category}`])],
+            provenance: s.provenance("auto-observer", { sessionId: buf[0]?.sessionId, files: editedFiles, model: s.llmModel() }),
         }, false);
 
         s.log(`[code-buddy] 📝 Dedup result: ${result.action} — ${result.message}`);
@@ -803,6 +908,7 @@ Respond ONLY with valid JSON:
                 preventionMethod: entry.errorInfo.prevention || "",
                 timestamp: nowTimestamp(),
                 relatedRule: "auto-detected",
+                project: s.projectId,
             });
             s.saveMistakes();
             s.session.errorsRecorded++;
@@ -815,15 +921,9 @@ Respond ONLY with valid JSON:
 
 // ---- Single summary mode ----
 
-async function processSingleSummaryObserver(s: PluginState, buf: Observation[], delegationContext?: string): Promise<void> {
+async function processSingleSummaryObserver(s: PluginState, buf: Observation[], diffs: FileDiff[], delegationContext?: string): Promise<void> {
 
-    const observationSummary = buf.map((o) => {
-        const time = formatTime(o.timestamp);
-        const argsStr = o.args
-            ? ` (${Object.entries(o.args).map(([k, v]) => `${k}: ${safeStringify(v)}`).join(", ")})`
-            : "";
-        return `[${time}] ${o.tool}${argsStr}${o.result ? `\n  → ${o.result}` : ""}${o.hasError ? " ❌ ERROR" : ""}`;
-    }).join("\n");
+    const observationSummary = formatObservations(buf, diffs);
 
     // Delegation context tells the AI classifier WHY this work was done
     const delegationBlock = delegationContext
@@ -834,7 +934,7 @@ async function processSingleSummaryObserver(s: PluginState, buf: Observation[],
 ${delegationBlock}
 Observations:
 ${observationSummary}
-
+${diffBlock(diffs)}
 DO NOT list tools used, files edited, function names, or CSS colors. Instead, extract:
 
 1. **Mental model** — How does the system work? Core data structures, state flow, main algorithm. (e.g. "Board is a 4x4 number matrix. Merging scans each row left-to-right, combining equal adjacent cells. Empty cells collapse by filtering zeros.")
@@ -862,7 +962,7 @@ Respond ONLY with valid JSON:
     } else {
         // Fallback: extract meaningful info from observations
         const editedFiles = [...new Set(buf.filter((o) => o.fileEdited).map((o) => o.fileEdited as string))];
-        const fallback = buildFallbackEntries(buf, editedFiles, buf.some((o) => o.hasError));
+        const fallback = buildFallbackEntries(buf, editedFiles, buf.some((o) => o.hasError), diffs);
         const entry = fallback[0];
         parsed = {
             title: entry.title,
@@ -880,6 +980,11 @@ Respond ONLY with valid JSON:
         title: parsed.title,
         content: parsed.summary,
         tags: [...new Set([...(parsed.tags || []), "auto-observed"])],
+        provenance: s.provenance("auto-observer", {
+            sessionId: buf[0]?.sessionId,
+            files: buf.filter((o) => o.fileEdited).map((o) => o.fileEdited as string),
+            model: s.llmModel(),
+        }),
     }, false);
 
     s.log(`[code-buddy] 🔍 Observer: ${result.message} (from ${buf.length} observations)`);
@@ -887,6 +992,9 @@ Respond ONLY with valid JSON:
 
 // ---- Synchronous fallback flush for process exit ----
 
+/** Diff characters quoted in a sync-flush guide (guides are capped at 3000). */
+const GUIDE_DIFF_CHARS = 1500;
+
 /**
  * Synchronous best-effort flush for a specific session.
  * Used in process exit handlers where async operations cannot complete.
@@ -894,7 +1002,7 @@ Respond ONLY with valid JSON:
 function flushSessionObservationsSync(s: PluginState, sessionId: string): void {
     const buf = [...s.getSessionObservations(sessionId)];
     s.clearSessionObservations(sessionId);
-    flushObservationBufSync(s, buf);
+    flushObservationBufSync(s, buf, sessionDiffs(buf, s.takeFileSnapshots(sessionId), s.config.redaction));
 }
 
 /**
@@ -903,7 +1011,7 @@ function flushSessionObservationsSync(s: PluginState, sessionId: string): void {
  * Reads created/edited files from disk to extract a structured project guide
  * that can help an AI agent recreate or extend the project later.
  */
-function flushObservationBufSync(s: PluginState, buf: Observation[]): void {
+function flushObservationBufSync(s: PluginState, buf: Observation[], diffs: FileDiff[] = sessionDiffs(buf)): void {
     if (buf.length < s.config.hooks.observeMinActions) return;
 
     // Check requireEditForRecord gate
@@ -917,64 +1025,22 @@ function flushObservationBufSync(s: PluginState, buf: Observation[]): void {
     if (editedFiles.length === 0) return;
 
     // Detect session type: debug/fix vs enhance vs build/create
-    const sessionType = detectSessionType(buf);
+    const sessionType = detectSessionType(buf, diffs);
 
     if (sessionType === "debug") {
-        flushDebugSession(s, buf, editedFiles);
+        flushDebugSession(s, buf, editedFiles, diffs);
     } else if (sessionType === "enhance") {
-        flushEnhanceSession(s, buf, editedFiles);
+        flushEnhanceSession(s, buf, editedFiles, diffs);
     } else {
         flushBuildSession(s, buf, editedFiles);
     }
 }
 
 /** Flush a debug/fix session — extract what broke, why, and how it was fixed. */
-function flushDebugSession(s: PluginState, buf: Observation[], editedFiles: string[]): void {
+function flushDebugSession(s: PluginState, buf: Observation[], editedFiles: string[], diffs: FileDiff[]): void {
     const fileNames = editedFiles.map((f) => f.split("/").pop() || f);
     const projectName = extractProjectName(buf, editedFiles);
 
-    // Extract diffs — the WHAT of the fix
-    const fixes: string[] = [];
-    for (const o of buf) {
-        if (!(o.tool === "edit" || o.tool.toLowerCase().includes("edit"))) continue;
-
-        const fileName = o.fileEdited ? (o.fileEdited.split("/").pop() || "") : "";
-        let oldStr = "";
-        let newStr = "";
-
-        if (o.args) {
-            oldStr = (o.args.old_string || o.args.oldString || o.args.old || "") as string;
-            newStr = (o.args.new_string || o.args.newString || o.args.new || "") as string;
-        }
-
-        // Fallback: parse unified diff from result
-        if (!oldStr && !newStr && o.result) {
-            const diffLines = o.result.split("\n");
-            const removals: string[] = [];
-            const additions: string[] = [];
-            for (const line of diffLines) {
-                if (line.startsWith("-") && !line.startsWith("---")) {
-                    const cleaned = line.substring(1).trim();
-                    if (cleaned && !cleaned.startsWith("@@")) removals.push(cleaned);
-                }
-                if (line.startsWith("+") && !line.startsWith("+++")) {
-                    const cleaned = line.substring(1).trim();
-                    if (cleaned && !cleaned.startsWith("@@")) additions.push(cleaned);
-                }
-            }
-            oldStr = removals.join("\n");
-            newStr = additions.join("\n");
-        }
-
-        if (oldStr || newStr) {
-            const fixEntry: string[] = [];
-            if (fileName) fixEntry.push(`In ${fileName}:`);
-            if (oldStr) fixEntry.push(`  Was: ${oldStr.substring(0, 150).trim()}`);
-            if (newStr) fixEntry.push(`  Now: ${newStr.substring(0, 150).trim()}`);
-            fixes.push(fixEntry.join("\n"));
-        }
-    }
-
     // Extract error messages — the SYMPTOM
     const errors: string[] = [];
     for (const o of buf) {
@@ -1000,11 +1066,9 @@ function flushDebugSession(s: PluginState, buf: Observation[], editedFiles: stri
         sections.push(...errors.slice(0, 3));
     }
 
-    if (fixes.length > 0) {
-        sections.push("", "### Fix");
-        for (const fix of fixes.slice(0, 5)) {
-            sections.push(fix);
-        }
+    // The session diff — the WHAT of the fix
+    if (diffs.length > 0) {
+        sections.push("", "### Fix", "```diff", renderDiffs(diffs.slice(0, 5), GUIDE_DIFF_CHARS), "```");
     }
 
     // Add file context — helps understand what area the bug is in
@@ -1030,35 +1094,24 @@ function flushDebugSession(s: PluginState, buf: Observation[], editedFiles: stri
         content: guide,
         tags: [...new Set([...tags, "auto-observed", "bugfix-guide"])],
         timestamp: nowTimestamp(),
+        provenance: s.provenance("sync-flush", { sessionId: buf[0]?.sessionId, files: editedFiles }),
     } as MemoryEntry);
 
     s.log(`[code-buddy] 📤 Sync flush: saved bugfix guide "${saved.title}"`);
 }
 
 /** Flush an enhancement session — capture what capability was added and how it integrates. */
-function flushEnhanceSession(s: PluginState, buf: Observation[], editedFiles: string[]): void {
+function flushEnhanceSession(s: PluginState, buf: Observation[], editedFiles: string[], diffs: FileDiff[]): void {
     const fileNames = editedFiles.map((f) => f.split("/").pop() || f);
     const projectName = extractProjectName(buf, editedFiles);
 
-    // Extract diffs — focus on understanding WHAT capability was added
-    const changes: string[] = [];
+    // Read the session diff — focus on understanding WHAT capability was added
+    const changed = diffs.filter((d) => d.added.length > 0);
     const capabilities: string[] = [];
 
-    for (const o of buf) {
-        if (!(o.tool === "edit" || o.tool.toLowerCase().includes("edit"))) continue;
-
-        const fileName = o.fileEdited ? (o.fileEdited.split("/").pop() || "") : "";
-        const oldStr = (o.args?.old_string || o.args?.oldString || o.args?.old || "") as string;
-        const newStr = (o.args?.new_string || o.args?.newString || o.args?.new || "") as string;
-
-        if (!newStr) continue;
-
-        // Record the change with context
-        const changeEntry: string[] = [];
-        if (fileName) changeEntry.push(`In ${fileName}:`);
-        if (oldStr) changeEntry.push(`  Was: ${oldStr.substring(0, 120).trim()}`);
-        changeEntry.push(`  Now: ${newStr.substring(0, 150).trim()}`);
-        changes.push(changeEntry.join("\n"));
+    for (const d of changed) {
+        const oldStr = d.removed.join("\n");
+        const newStr = d.added.join("\n");
 
         // Detect what KIND of capability was added (not just names)
         if (/localStorage/i.test(newStr) && !/localStorage/i.test(oldStr)) {
@@ -1111,11 +1164,8 @@ function flushEnhanceSession(s: PluginState, buf: Observation[], editedFiles: st
         sections.push([...new Set(capabilities)].map((c) => `- ${c}`).join("\n"));
     }
 
-    if (changes.length > 0) {
-        sections.push("", "### How it was implemented");
-        for (const change of changes.slice(0, 6)) {
-            sections.push(change);
-        }
+    if (changed.length > 0) {
+        sections.push("", "### How it was implemented", "```diff", renderDiffs(changed.slice(0, 6), GUIDE_DIFF_CHARS), "```");
     }
 
     // Add understanding of current system state from file analysis
@@ -1138,6 +1188,7 @@ function flushEnhanceSession(s: PluginState, buf: Observation[], editedFiles: st
         content: guide,
         tags: [...new Set([...tags, "auto-observed", "enhancement-guide"])],
         timestamp: nowTimestamp(),
+        provenance: s.provenance("sync-flush", { sessionId: buf[0]?.sessionId, files: editedFiles }),
     } as MemoryEntry);
 
     s.log(`[code-buddy] 📤 Sync flush: saved enhancement guide "${saved.title}"`);
@@ -1233,6 +1284,7 @@ function flushBuildSession(s: PluginState, buf: Observation[], editedFiles: stri
         content: guide,
         tags: [...new Set([...tags, "auto-observed", "project-guide"])],
         timestamp: nowTimestamp(),
+        provenance: s.provenance("sync-flush", { sessionId: buf[0]?.sessionId, files: editedFiles }),
     } as MemoryEntry);
 
     s.log(`[code-buddy] 📤 Sync flush: saved project guide "${saved.title}"`);
@@ -7,15 +7,17 @@
 import type { Plugin } from "@opencode-ai/plugin";
 import * as path from "node:path";
 import * as os from "node:os";
-import { LocalStorage } from "./storage";
-import { loadConfig } from "./config";
+import { openStorage } from "./storage";
+import { loadConfig, resolveDataDir } from "./config";
 import { PluginState } from "./state";
 import { getLLMStatus, testLLMConnection } from "./llm";
 import { createTools } from "./tools";
 import { createHooks } from "./hooks";
+import { resolveProjectRoot } from "./project";
 
 export const CodeBuddyPlugin: Plugin = async (ctx) => {
     const { client } = ctx;
+    const projectRoot = resolveProjectRoot(ctx.worktree || ctx.directory || process.cwd());
     const globalBase = path.join(os.homedir(), ".config", "opencode", "code-buddy");
     const configPath = path.join(globalBase, "config.json");
 
@@ -23,8 +25,11 @@ export const CodeBuddyPlugin: Plugin = async (ctx) => {
     // Create a verbose-aware log for early subsystems (before state exists)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const log = (...args: any[]) => { if (config.features.verbose !== false) console.log(...args); };
-    const storage = new LocalStorage(path.join(globalBase, "data"), log);
-    const state = new PluginState(storage, config, configPath, client);
+    const dataDir = resolveDataDir(config.storage.dataDir, projectRoot, path.join(globalBase, "data"));
+    const storage = openStorage(config.storage.backend, dataDir, log);
+    const state = new PluginState(storage, config, configPath, client, projectRoot);
+    // Merge edits made by other OpenCode windows sharing the data directory
+    state.watchStorage();
 
     // When disabled, only expose buddy_config so the user can re-enable
     if (config.enabled === false) {
@@ -0,0 +1,174 @@
+/**
+ * Observation journal — every buffered observation is also appended to a
+ * per-session JSONL file, so a crash or SIGKILL (where no exit handler runs)
+ * doesn't lose what the session did since its last flush.
+ *
+ * Files are named `<pid>-<session>.jsonl` in `<dataDir>/journal/` and start
+ * with the project they belong to (the data dir is shared by all projects). A
+ * flush renames the session's file aside and deletes it once the flush is
+ * done. On startup, the current project's files whose process is gone are
+ * claimed (by an atomic rename, so two starting windows never replay the same
+ * file) and replayed.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Observation } from "./types";
+import { isProcessAlive } from "./storage";
+
+/** Observations replayed per orphaned journal (the newest are kept). */
+const MAX_REPLAY_OBSERVATIONS = 200;
+
+type JournalRecord =
+    | { kind: "project"; projectId: string }
+    | { kind: "observation"; observation: Observation }
+    | { kind: "delegation"; context: string };
+
+/** An orphaned journal, parsed. */
+export interface OrphanedJournal {
+    file: string;
+    sessionId: string;
+    observations: Observation[];
+    delegationContext?: string;
+}
+
+/** Parse journal lines; a torn last line (crash mid-write) and other bad lines are skipped. */
+export function parseJournal(content: string): { projectId?: string; observations: Observation[]; delegationContext?: string } {
+    const observations: Observation[] = [];
+    let projectId: string | undefined;
+    let delegationContext: string | undefined;
+    for (const line of content.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const record = JSON.parse(line) as JournalRecord;
+            if (record.kind === "project") projectId = record.projectId;
+            else if (record.kind === "observation") observations.push(record.observation);
+            else if (record.kind === "delegation") delegationContext = record.context;
+        } catch {
+            // skip
+        }
+    }
+    return { projectId, observations: observations.slice(-MAX_REPLAY_OBSERVATIONS), delegationContext };
+}
+
+export class ObservationJournal {
+    private readonly pid = process.pid;
+
+    constructor(
+        private readonly dir: string,
+        private readonly projectId: string,
+        private readonly log: (...args: unknown[]) => void = () => {},
+    ) {}
+
+    private fileFor(sessionId: string): string {
+        return path.join(this.dir, `${this.pid}-${encodeURIComponent(sessionId)}.jsonl`);
+    }
+
+    /** Append records; a new file starts with the project header. */
+    private write(sessionId: string, records: JournalRecord[]): void {
+        const file = this.fileFor(sessionId);
+        try {
+            fs.mkdirSync(this.dir, { recursive: true });
+            if (!fs.existsSync(file)) records = [{ kind: "project", projectId: this.projectId }, ...records];
+            fs.appendFileSync(file, records.map((r) => JSON.stringify(r) + "\n").join(""));
+        } catch (err) {
+            this.log(`[code-buddy] ⚠️ Journal write failed for session ${sessionId}:`, err);
+        }
+    }
+
+    /** Append an observation. A new file starts with the session's delegation context, if any. */
+    append(sessionId: string, observation: Observation, delegationContext?: string): void {
+        const records: JournalRecord[] = [];
+        if (delegationContext && !fs.existsSync(this.fileFor(sessionId))) records.push({ kind: "delegation", context: delegationContext });
+        records.push({ kind: "observation", observation });
+        this.write(sessionId, records);
+    }
+
+    appendDelegation(sessionId: string, context: string): void {
+        this.write(sessionId, [{ kind: "delegation", context }]);
+    }
+
+    /**
+     * Set the session's journal aside at the start of a flush; later
+     * observations go to a fresh file. Returns the set-aside file, or null.
+     */
+    rotate(sessionId: string): string | null {
+        const file = this.fileFor(sessionId);
+        const aside = `${file}.flushing-${Date.now()}`;
+        try {
+            fs.renameSync(file, aside);
+            return aside;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Delete a journal file once its observations are safely processed. */
+    discard(file: string | null): void {
+        if (!file) return;
+        try {
+            fs.unlinkSync(file);
+        } catch {
+            // already gone
+        }
+    }
+
+    /** Delete this process's journals on exit, except `keep` (files whose observations were not saved). */
+    discardAll(keep: ReadonlySet<string> = new Set()): void {
+        for (const name of this.list()) {
+            const file = path.join(this.dir, name);
+            if (name.startsWith(`${this.pid}-`) && !keep.has(file)) this.discard(file);
+        }
+    }
+
+    /** Project named in a journal's header line. */
+    private projectOf(file: string): string | undefined {
+        try {
+            const firstLine = fs.readFileSync(file, "utf-8").split("\n", 1)[0];
+            return parseJournal(firstLine).projectId;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private list(): string[] {
+        try {
+            return fs.readdirSync(this.dir);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Claim and parse this project's journals of processes that are gone.
+     * Claimed files are renamed to `.replaying-<pid>`; discard them after
+     * replaying. Other projects' journals are left for their own windows.
+     */
+    claimOrphans(): OrphanedJournal[] {
+        const orphans: OrphanedJournal[] = [];
+        for (const name of this.list()) {
+            const match = name.match(/^(\d+)-(.+?)\.jsonl(?:\.(flushing|replaying)-\d+)?$/);
+            if (!match) continue;
+            const pid = Number(match[1]);
+            // A `.replaying-<pid>` file belongs to the process replaying it
+            const owner = match[3] === "replaying" ? Number(name.slice(name.lastIndexOf("-") + 1)) : pid;
+            if (owner === this.pid || isProcessAlive(owner)) continue;
+
+            const source = path.join(this.dir, name);
+            if (this.projectOf(source) !== this.projectId) continue;
+            const claimed = path.join(this.dir, `${pid}-${match[2]}.jsonl.replaying-${this.pid}`);
+            try {
+                fs.renameSync(source, claimed);
+            } catch {
+                continue; // another window claimed it first
+            }
+            try {
+                const parsed = parseJournal(fs.readFileSync(claimed, "utf-8"));
+                orphans.push({ file: claimed, sessionId: decodeURIComponent(match[2]), ...parsed });
+            } catch (err) {
+                this.log(`[code-buddy] ⚠️ Could not read journal ${name}:`, err);
+            }
+        }
+        return orphans;
+    }
+}
@@ -8,6 +8,10 @@ import * as os from "node:os";
 import type { MemoryEntry, MemoryType, ProviderInfo, DedupResult } from "./types";
 import { MEMORY_TYPE_CATEGORY } from "./types";
 import { calculateSimilarity, generateId, nowTimestamp } from "./helpers";
+import { inProject } from "./project";
+import { recordRevision, SYSTEM_AUTHOR } from "./revisions";
+import { vectorSimilarities, hybridScore } from "./embeddings";
+import { redactText } from "./redact";
 import type { PluginState } from "./state";
 
 // ============================================
@@ -189,6 +193,7 @@ export async function testLLMConnection(s: PluginState): Promise<{
 
 export async function askAI(s: PluginState, prompt: string): Promise<string> {
     const provider = await resolveProvider(s);
+    prompt = redactText(prompt, s.config.redaction);
 
     if (provider?.baseURL && provider.apiKey) {
         try {
@@ -301,20 +306,28 @@ export async function findSimilarMemories(
     content: string,
     title: string,
     useLLM = true,
-): Promise<{ matches: MemoryEntry[]; method: "jaccard" | "llm" }> {
+): Promise<{ matches: MemoryEntry[]; method: "jaccard" | "hybrid" | "llm" }> {
     const combined = `${title} ${content}`;
-
-    // First pass: Jaccard
-    const jaccardMatches = s.memories.filter(
-        (m) => calculateSimilarity(combined, `${m.title} ${m.content}`) >= JACCARD_THRESHOLD,
-    );
+    // Dedup never crosses projects — only merge into this project's (or shared legacy) memories
+    const pool = inProject(s.memories, s.projectId);
+
+    // First pass: Jaccard, lifted by vector similarity when embeddings are enabled
+    const vectors = await vectorSimilarities(s, combined, pool);
+    let lifted = false;
+    const jaccardMatches = pool.filter((m) => {
+        const jaccard = calculateSimilarity(combined, `${m.title} ${m.content}`);
+        if (jaccard >= JACCARD_THRESHOLD) return true;
+        const matched = hybridScore(s, jaccard, vectors.get(m.id)) >= JACCARD_THRESHOLD;
+        if (matched) lifted = true;
+        return matched;
+    });
     if (jaccardMatches.length > 0) {
-        return { matches: jaccardMatches, method: "jaccard" };
+        return { matches: jaccardMatches, method: lifted ? "hybrid" : "jaccard" };
     }
 
     // Second pass: LLM semantic check on last 10 memories
-    if (useLLM && (await isLLMAvailable(s)) && s.memories.length > 0) {
-        const candidates = s.memories.slice(-10);
+    if (useLLM && (await isLLMAvailable(s)) && pool.length > 0) {
+        const candidates = pool.slice(-10);
         const llmMatches: MemoryEntry[] = [];
 
         for (const m of candidates) {
@@ -393,7 +406,7 @@ export async function addMemoryWithDedup(
     const similar = similarResult.matches;
 
     if (similar.length === 0 || forceSave) {
-        const newEntry: MemoryEntry = { ...entry, id: generateId("mem"), timestamp: nowTimestamp() };
+        const newEntry: MemoryEntry = { ...entry, id: generateId("mem"), timestamp: nowTimestamp(), project: s.projectId };
         s.memories.push(newEntry);
         s.saveMemories();
         s.session.memoriesCreated++;
@@ -405,11 +418,14 @@ export async function addMemoryWithDedup(
         const merged = await mergeMemoriesWithAI(s, similar[0], { title: entry.title, content: entry.content });
         const idx = s.memories.findIndex((m) => m.id === similar[0].id);
         if (idx >= 0) {
+            s.snapshotBefore("merge", true);
+            const before = { ...s.memories[idx], tags: [...s.memories[idx].tags] };
             s.memories[idx].title = merged.title;
             s.memories[idx].content = merged.content;
             s.memories[idx].timestamp = nowTimestamp();
             s.memories[idx].tags = [...new Set([...s.memories[idx].tags, ...entry.tags])];
             s.saveMemories();
+            recordRevision(s, before, s.memories[idx], "llm-merge", SYSTEM_AUTHOR);
             return {
                 action: "merged",
                 entry: s.memories[idx],
@@ -0,0 +1,104 @@
+/**
+ * Schema versioning and migrations for persisted collections.
+ *
+ * Each collection records the schema version it was written with. On
+ * startup, runMigrations() upgrades older collections step by step, backing
+ * up the pre-migration data to `migration-backups/` first. Migrations must be
+ * idempotent: a crash between writing records and stamping the version means
+ * the step runs again on the next start.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CollectionName, StorageBackend } from "./types";
+import { MEMORY_TYPE_CATEGORY, COLLECTIONS } from "./types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LogFn = (...args: any[]) => void;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRecord = Record<string, any>;
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+interface Migration {
+    /** Version this migration upgrades TO. */
+    version: number;
+    description: string;
+    migrate(collection: CollectionName, items: AnyRecord[]): AnyRecord[];
+}
+
+/** Convert legacy numeric (ms) timestamps to ISO strings; leave anything else alone. */
+function toISO(value: unknown): unknown {
+    if (typeof value === "number" && Number.isFinite(value)) return new Date(value).toISOString();
+    return value;
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: "ISO timestamps, explicit memory category, tag arrays",
+        migrate(collection, items) {
+            return items.map((item) => {
+                const next = { ...item };
+                if (collection === "memories") {
+                    next.timestamp = toISO(next.timestamp);
+                    if (!next.category) next.category = MEMORY_TYPE_CATEGORY[next.type as keyof typeof MEMORY_TYPE_CATEGORY] || "knowledge";
+                    if (!Array.isArray(next.tags)) next.tags = [];
+                } else if (collection === "entities") {
+                    next.createdAt = toISO(next.createdAt);
+                    if (!Array.isArray(next.tags)) next.tags = [];
+                    if (!Array.isArray(next.observations)) next.observations = [];
+                } else if (collection === "relations") {
+                    next.createdAt = toISO(next.createdAt);
+                } else if (collection === "mistakes") {
+                    next.timestamp = toISO(next.timestamp);
+                }
+                return next;
+            });
+        },
+    },
+];
+
+/** Write the pre-migration records of a collection to `migration-backups/`. Returns the backup path. */
+function backupCollection(storage: StorageBackend, collection: CollectionName, fromVersion: number, items: AnyRecord[]): string {
+    const dir = path.join(storage.getBaseDir(), "migration-backups");
+    fs.mkdirSync(dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(dir, `${collection}.v${fromVersion}.${stamp}.json`);
+    fs.writeFileSync(file, JSON.stringify(items, null, 2), "utf-8");
+    return file;
+}
+
+/**
+ * Bring every collection up to CURRENT_SCHEMA_VERSION. Empty collections are
+ * simply stamped; a collection whose backup or save fails is left untouched
+ * (the next start retries).
+ */
+export function runMigrations(storage: StorageBackend, log: LogFn = console.log): void {
+    for (const collection of COLLECTIONS) {
+        const fromVersion = storage.getSchemaVersion(collection);
+        if (fromVersion >= CURRENT_SCHEMA_VERSION) continue;
+
+        if (fromVersion === 0) {
+            storage.saveMigrated(collection, [], CURRENT_SCHEMA_VERSION);
+            continue;
+        }
+
+        const original = storage.load<{ id: string }>(collection) as AnyRecord[];
+        let items = original;
+        const steps = MIGRATIONS.filter((m) => m.version > fromVersion && m.version <= CURRENT_SCHEMA_VERSION);
+        try {
+            const backup = backupCollection(storage, collection, fromVersion, original);
+            for (const step of steps) {
+                items = step.migrate(collection, items);
+            }
+            if (!storage.saveMigrated(collection, items as Array<{ id: string }>, CURRENT_SCHEMA_VERSION)) {
+                log(`[code-buddy] ❌ Could not save migrated ${collection}; keeping schema v${fromVersion}`);
+                continue;
+            }
+            log(`[code-buddy] 🔧 Migrated ${collection} v${fromVersion} → v${CURRENT_SCHEMA_VERSION} (${steps.map((s) => s.description).join("; ")}). Backup: ${backup}`);
+        } catch (error) {
+            log(`[code-buddy] ❌ Migration of ${collection} failed; keeping schema v${fromVersion}:`, error);
+        }
+    }
+}
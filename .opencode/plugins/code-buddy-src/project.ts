@@ -0,0 +1,81 @@
+/**
+ * Project identity — scopes memories, entities, relations and mistakes
+ * to the repository (or directory) they were recorded in.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Walk up from `dir` to the nearest directory containing `.git` (a directory
+ * for normal clones, a file for worktrees/submodules). Falls back to `dir`
+ * itself when no git root is found.
+ */
+export function resolveProjectRoot(dir: string): string {
+    const start = path.resolve(dir);
+    let current = start;
+    while (true) {
+        if (fs.existsSync(path.join(current, ".git"))) return current;
+        const parent = path.dirname(current);
+        if (parent === current) return start;
+        current = parent;
+    }
+}
+
+/** Resolve the real git directory (follows the `gitdir:` pointer used by worktrees/submodules). */
+function gitDir(projectRoot: string): string | null {
+    const dotGit = path.join(projectRoot, ".git");
+    try {
+        if (fs.statSync(dotGit).isDirectory()) return dotGit;
+        const match = fs.readFileSync(dotGit, "utf-8").match(/^gitdir:\s*(.+)$/m);
+        return match ? path.resolve(projectRoot, match[1].trim()) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Current branch and commit of a git checkout, read straight from `.git`
+ * (no git binary needed). Missing pieces are left undefined.
+ */
+export function readGitInfo(projectRoot: string): { branch?: string; commit?: string } {
+    const dir = gitDir(projectRoot);
+    if (!dir) return {};
+    try {
+        const head = fs.readFileSync(path.join(dir, "HEAD"), "utf-8").trim();
+        const ref = head.match(/^ref:\s*(.+)$/)?.[1];
+        if (!ref) return { commit: head.substring(0, 12) };
+
+        const branch = ref.replace(/^refs\/heads\//, "");
+        // Worktrees keep refs in the main repository's git dir
+        const commonDir = fs.existsSync(path.join(dir, "commondir"))
+            ? path.resolve(dir, fs.readFileSync(path.join(dir, "commondir"), "utf-8").trim())
+            : dir;
+        for (const base of [dir, commonDir]) {
+            const refFile = path.join(base, ref);
+            if (fs.existsSync(refFile)) return { branch, commit: fs.readFileSync(refFile, "utf-8").trim().substring(0, 12) };
+        }
+        const packed = path.join(commonDir, "packed-refs");
+        if (fs.existsSync(packed)) {
+            const line = fs.readFileSync(packed, "utf-8").split("\n").find((l) => l.endsWith(` ${ref}`));
+            if (line) return { branch, commit: line.substring(0, 12) };
+        }
+        return { branch };
+    } catch {
+        return {};
+    }
+}
+
+/** Short, human-readable label for a project id (its directory name). */
+export function projectLabel(projectId: string | undefined): string {
+    if (!projectId) return "(shared)";
+    return path.basename(projectId) || projectId;
+}
+
+/**
+ * Keep only items belonging to `projectId`. Items without a project
+ * (recorded before scoping existed) are treated as shared and always kept.
+ */
+export function inProject<T extends { project?: string }>(items: T[], projectId: string): T[] {
+    return items.filter((item) => !item.project || item.project === projectId);
+}
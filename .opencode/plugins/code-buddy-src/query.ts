@@ -0,0 +1,209 @@
+/**
+ * Structured memory query language.
+ *
+ *   tag:testing type:bugfix after:2026-01-01 -tag:auto-observed "exact phrase" OR login
+ *
+ * - `field:value` filters: tag, type, category, source, file, branch, session, after, before
+ *   (any other `word:value`, such as `localhost:3000` or `auth.ts:42`, is a plain word)
+ * - `after:` / `before:` take a date (`2026-01-01`) or an age (`90d`, `12w`, `6m`, `1y` ago)
+ * - `-` negates a filter, phrase or word
+ * - `"..."` matches an exact phrase in the title or content
+ * - `OR` separates alternatives; terms within an alternative are ANDed
+ * - bare words rank results with BM25 blended with vector similarity
+ * - an empty query matches everything, newest first
+ */
+
+import type { MemoryEntry } from "./types";
+import { MEMORY_TYPE_CATEGORY, VALID_MEMORY_TYPES } from "./types";
+import { getMemoryCategory } from "./helpers";
+import { tokenize } from "./search";
+import { hybridSearch } from "./embeddings";
+import type { PluginState } from "./state";
+
+export class ParseError extends Error {
+    /** 0-based offset of the offending token in the query string. */
+    readonly position: number;
+
+    constructor(message: string, position: number) {
+        super(`${message} (at position ${position + 1})`);
+        this.name = "ParseError";
+        this.position = position;
+    }
+}
+
+export const QUERY_FIELDS = ["tag", "type", "category", "source", "file", "branch", "session", "after", "before"] as const;
+type QueryField = (typeof QUERY_FIELDS)[number];
+
+export interface QueryFilter {
+    field: QueryField;
+    /** Lowercased value; for after/before, the cutoff in epoch ms. */
+    value: string | number;
+    negate: boolean;
+}
+
+export interface QueryGroup {
+    filters: QueryFilter[];
+    phrases: Array<{ text: string; negate: boolean }>;
+    /** Free words used for BM25 ranking. */
+    words: string[];
+    /** Negated free words — excluded when any of their tokens appears. */
+    excludedWords: string[];
+}
+
+export interface ParsedQuery {
+    groups: QueryGroup[];
+}
+
+export const QUERY_SYNTAX_HELP = "Syntax: `tag:x type:bugfix category:solution source:auto-observer file:auth.ts branch:main "
+    + "after:2026-01-01 before:90d -tag:y \"exact phrase\" words OR ...`";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGE_UNITS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+function parseDate(raw: string, position: number, field: string): number {
+    const age = raw.match(/^(\d+)([dwmy])$/);
+    if (age) return Date.now() - Number(age[1]) * AGE_UNITS[age[2]] * DAY_MS;
+    if (/^\d{4}-\d{2}(-\d{2})?([T ][\d:.]+Z?)?$/.test(raw)) {
+        const time = new Date(raw).getTime();
+        if (!Number.isNaN(time)) return time;
+    }
+    throw new ParseError(`Invalid date "${raw}" for ${field}: (use YYYY-MM-DD or an age like 90d)`, position);
+}
+
+function emptyGroup(): QueryGroup {
+    return { filters: [], phrases: [], words: [], excludedWords: [] };
+}
+
+/** Parse a query string. Throws ParseError on malformed input (unterminated quotes, stray OR, bad filter values). */
+export function parseQuery(input: string): ParsedQuery {
+    const groups: QueryGroup[] = [];
+    let group = emptyGroup();
+    let groupHasTerms = false;
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) { i++; continue; }
+        const start = i;
+        const negate = input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1]);
+        if (negate) i++;
+
+        // Quoted phrase
+        if (input[i] === "\"") {
+            const close = input.indexOf("\"", i + 1);
+            if (close === -1) throw new ParseError("Unterminated quote", i);
+            const text = input.substring(i + 1, close).trim().toLowerCase();
+            if (!text) throw new ParseError("Empty phrase", i);
+            group.phrases.push({ text, negate });
+            groupHasTerms = true;
+            i = close + 1;
+            continue;
+        }
+
+        let end = i;
+        while (end < input.length && !/\s/.test(input[end])) end++;
+        const token = input.substring(i, end);
+        i = end;
+
+        if (token === "OR" && !negate) {
+            if (!groupHasTerms) throw new ParseError("OR must be between two terms", start);
+            groups.push(group);
+            group = emptyGroup();
+            groupHasTerms = false;
+            continue;
+        }
+
+        // `field:value` is a filter when `field` is known; "Error:", URLs, ports and paths stay plain words
+        const colon = token.indexOf(":");
+        const field = colon > 0 ? token.substring(0, colon).toLowerCase() : "";
+        if (colon < token.length - 1 && !token.includes("://") && (QUERY_FIELDS as readonly string[]).includes(field)) {
+            let raw = token.substring(colon + 1);
+            if (raw.startsWith("\"")) {
+                // field:"value with spaces"
+                const close = input.indexOf("\"", start + (negate ? 1 : 0) + colon + 2);
+                if (close === -1) throw new ParseError("Unterminated quote", start + colon + 1);
+                raw = input.substring(start + (negate ? 1 : 0) + colon + 2, close);
+                i = close + 1;
+            }
+            if (!raw) throw new ParseError(`Missing value for ${field}:`, start);
+
+            const value = field === "after" || field === "before"
+                ? parseDate(raw, start, field)
+                : raw.toLowerCase();
+            if (field === "type" && !VALID_MEMORY_TYPES.includes(value as MemoryEntry["type"])) {
+                throw new ParseError(`Unknown type "${raw}" — expected one of ${VALID_MEMORY_TYPES.join(", ")}`, start);
+            }
+            if (field === "category" && !Object.values(MEMORY_TYPE_CATEGORY).includes(value as never)) {
+                throw new ParseError(`Unknown category "${raw}" — expected solution or knowledge`, start);
+            }
+            group.filters.push({ field: field as QueryField, value, negate });
+        } else if (negate) {
+            group.excludedWords.push(token);
+        } else {
+            group.words.push(token);
+        }
+        groupHasTerms = true;
+    }
+
+    if (!groupHasTerms && groups.length > 0) throw new ParseError("OR must be between two terms", input.length - 1);
+    // An empty query is one group without terms, which matches everything
+    groups.push(group);
+    return { groups };
+}
+
+/** Words and phrases to highlight in results (negated terms excluded). */
+export function queryTerms(query: ParsedQuery): string[] {
+    return query.groups.flatMap((g) => [...g.words, ...g.phrases.filter((p) => !p.negate).map((p) => p.text)]);
+}
+
+function filterMatches(m: MemoryEntry, f: QueryFilter): boolean {
+    const v = f.value;
+    switch (f.field) {
+        case "tag": return m.tags.some((t) => t.toLowerCase() === v);
+        case "type": return m.type === v;
+        case "category": return getMemoryCategory(m) === v;
+        case "source": return m.provenance?.source === v;
+        case "file": return !!m.provenance?.files?.some((file) => file.toLowerCase().includes(v as string));
+        case "branch": return m.provenance?.gitBranch?.toLowerCase() === v;
+        case "session": return m.provenance?.sessionId?.toLowerCase() === v;
+        case "after": return new Date(m.timestamp).getTime() >= (v as number);
+        case "before": return new Date(m.timestamp).getTime() < (v as number);
+    }
+}
+
+/** Does `m` satisfy every filter, phrase and exclusion of the group? (Free words only rank.) */
+export function matchesGroup(m: MemoryEntry, group: QueryGroup): boolean {
+    for (const f of group.filters) {
+        if (filterMatches(m, f) === f.negate) return false;
+    }
+    const text = `${m.title}\n${m.content}`.toLowerCase();
+    for (const p of group.phrases) {
+        if (text.includes(p.text) === p.negate) return false;
+    }
+    if (group.excludedWords.length > 0) {
+        const tokens = new Set(tokenize(`${m.title} ${m.content} ${m.tags.join(" ")}`));
+        if (group.excludedWords.some((w) => tokenize(w).some((t) => tokens.has(t)))) return false;
+    }
+    return true;
+}
+
+/**
+ * Run a parsed query against `candidates`. Groups with free words are
+ * ranked by `hybridSearch`; filter-only groups return newest first.
+ * Alternatives are concatenated in order, without duplicates.
+ */
+export async function runMemoryQuery(s: PluginState, candidates: MemoryEntry[], query: ParsedQuery): Promise<MemoryEntry[]> {
+    const seen = new Set<string>();
+    const results: MemoryEntry[] = [];
+    for (const group of query.groups) {
+        const filtered = candidates.filter((m) => matchesGroup(m, group));
+        const ranked = group.words.length > 0
+            ? await hybridSearch(s, filtered, group.words.join(" "))
+            : [...filtered].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        for (const m of ranked) {
+            if (seen.has(m.id)) continue;
+            seen.add(m.id);
+            results.push(m);
+        }
+    }
+    return results;
+}
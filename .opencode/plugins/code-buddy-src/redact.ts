@@ -0,0 +1,129 @@
+/**
+ * Secret redaction — masks credentials before observations are buffered,
+ * before LLM prompts are sent and before records are saved. Built-in
+ * detectors cover private keys, common token formats, credentials in URLs,
+ * secret-looking env lines (`API_KEY=value`) and quoted assignments
+ * (`"password": "value"`), and high-entropy tokens; users can
+ * add their own patterns (`redaction.patterns`).
+ */
+
+import type { PluginConfig } from "./types";
+
+export const REDACTED = "[REDACTED]";
+
+type RedactionConfig = PluginConfig["redaction"];
+
+interface Detector {
+    name: string;
+    pattern: RegExp;
+    /** Replacement; defaults to REDACTED for the whole match. */
+    replace?: string;
+}
+
+const SECRET_NAME = "[A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?key|credentials?|session[_-]?key)[A-Za-z0-9_.-]*";
+
+export const DETECTORS: Detector[] = [
+    { name: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+    { name: "url-credentials", pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+@/gi, replace: `$1${REDACTED}@` },
+    { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+    { name: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+    { name: "api-key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}\b/g },
+    { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { name: "stripe-key", pattern: /\b[rsp]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g },
+    { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+    { name: "bearer", pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g, replace: `$1${REDACTED}` },
+    {
+        // API_KEY=abc, export DB_PASSWORD='abc' on their own line. Numbers, booleans,
+        // $VARS and values with "(" or "." (calls, member access) are left alone
+        name: "env-assignment",
+        pattern: new RegExp(`^([ \\t]*(?:export[ \\t]+)?${SECRET_NAME}=)(["']?)(?!(?:\\d+|true|false|null|undefined)\\b)(?![$]|\\[REDACTED\\])[^\\s"'().]{4,}\\2(?=\\s|$)`, "gim"),
+        replace: `$1$2${REDACTED}$2`,
+    },
+    {
+        // "password": "abc", apiKey = 'abc' — only quoted string literals, so code like
+        // `maxTokens = options.maxTokens` or `tokenizer: createTokenizer()` is kept
+        name: "quoted-assignment",
+        pattern: new RegExp(`((?:^|[\\s{,;(])["']?${SECRET_NAME}["']?\\s*[:=]\\s*)(["'])(?!\\[REDACTED\\])[^\\s"'().]{4,}\\2`, "gim"),
+        replace: `$1$2${REDACTED}$2`,
+    },
+];
+
+/** Tokens checked for entropy: long runs of letters, digits and base64/url-safe punctuation. */
+const TOKEN = /[A-Za-z0-9_+=-]{24,}/g;
+
+/** Shannon entropy in bits per character. */
+export function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/** A random-looking token: mixes letters and digits, isn't plain hex (hashes, ids) and has high entropy. */
+function looksRandom(token: string, minEntropy: number): boolean {
+    if (!/[A-Za-z]/.test(token) || !/\d/.test(token)) return false;
+    if (/^[0-9a-fA-F-]+$/.test(token)) return false;
+    return shannonEntropy(token) >= minEntropy;
+}
+
+/** Compiled user patterns, cached by source; invalid patterns compile to null and are skipped. */
+const userPatterns = new Map<string, RegExp | null>();
+
+function compile(source: string): RegExp | null {
+    if (!userPatterns.has(source)) {
+        try {
+            userPatterns.set(source, new RegExp(source, "g"));
+        } catch {
+            userPatterns.set(source, null);
+        }
+    }
+    return userPatterns.get(source)!;
+}
+
+/** Mask every secret in `text`. */
+export function redactText(text: string, config: RedactionConfig): string {
+    if (!config.enabled || !text) return text;
+    let result = text;
+    for (const { pattern, replace } of DETECTORS) {
+        result = result.replace(pattern, replace ?? REDACTED);
+    }
+    for (const source of config.patterns) {
+        const pattern = compile(source);
+        if (pattern) result = result.replace(pattern, REDACTED);
+    }
+    if (config.minEntropy > 0) {
+        result = result.replace(TOKEN, (token) => (looksRandom(token, config.minEntropy) ? REDACTED : token));
+    }
+    return result;
+}
+
+/** Copy of `value` with every string in it redacted. */
+export function redactValue<T>(value: T, config: RedactionConfig): T {
+    if (!config.enabled) return value;
+    if (typeof value === "string") return redactText(value, config) as T;
+    if (Array.isArray(value)) return value.map((v) => redactValue(v, config)) as T;
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactValue(v, config)])) as T;
+    }
+    return value;
+}
+
+/** Redact a stored record's string fields in place (ids excluded). Returns true when anything changed. */
+export function redactRecord(record: Record<string, unknown>, config: RedactionConfig): boolean {
+    if (!config.enabled) return false;
+    let changed = false;
+    for (const [key, value] of Object.entries(record)) {
+        if (key === "id") continue;
+        const redacted = redactValue(value, config);
+        if (JSON.stringify(redacted) !== JSON.stringify(value)) {
+            record[key] = redacted;
+            changed = true;
+        }
+    }
+    return changed;
+}
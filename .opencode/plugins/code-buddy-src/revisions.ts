@@ -0,0 +1,67 @@
+/**
+ * Memory revision history — every edit, merge and revert of a memory
+ * appends a full copy of the result to the `revisions` collection.
+ */
+
+import type { PluginState } from "./state";
+import type { MemoryEntry, MemoryRevision, RevisionSource } from "./types";
+import { generateId, nowTimestamp } from "./helpers";
+import { unifiedDiff } from "./diff";
+
+/** Author recorded for changes Code Buddy makes on its own (dedup merges). */
+export const SYSTEM_AUTHOR = "code-buddy";
+
+/** Revisions of one memory, oldest first. */
+export function getRevisions(s: PluginState, memoryId: string): MemoryRevision[] {
+    return s.revisions.filter((r) => r.memoryId === memoryId).sort((a, b) => a.revision - b.revision);
+}
+
+function toRevision(memory: MemoryEntry, revision: number, source: RevisionSource, author: string, timestamp: string): MemoryRevision {
+    return {
+        id: generateId("rev"),
+        memoryId: memory.id,
+        revision,
+        timestamp,
+        source,
+        author,
+        title: memory.title,
+        content: memory.content,
+        type: memory.type,
+        tags: [...memory.tags],
+        project: memory.project,
+    };
+}
+
+/**
+ * Append a revision for `after`. The first time a memory changes, its
+ * pre-change state (`before`) is stored as revision 1 ("original") so the
+ * change can be diffed and reverted. Call after mutating the memory.
+ */
+export function recordRevision(
+    s: PluginState,
+    before: MemoryEntry,
+    after: MemoryEntry,
+    source: RevisionSource,
+    author: string,
+): MemoryRevision {
+    const existing = getRevisions(s, after.id);
+    if (existing.length === 0) {
+        s.revisions.push(toRevision(before, 1, "original", "unknown", before.timestamp));
+    }
+    const rev = toRevision(after, (existing[existing.length - 1]?.revision ?? 1) + 1, source, author, nowTimestamp());
+    s.revisions.push(rev);
+    s.saveRevisions();
+    return rev;
+}
+
+/** Text form of a revision (or memory) used for diffs. */
+export function renderRevision(r: Pick<MemoryRevision, "title" | "type" | "tags" | "content">): string {
+    return `# ${r.title}\ntype: ${r.type}\ntags: ${r.tags.join(", ")}\n\n${r.content}`;
+}
+
+export function diffRevisions(from: MemoryRevision, to: MemoryRevision): string {
+    return unifiedDiff(renderRevision(from), renderRevision(to), {
+        fromLabel: `revision ${from.revision} (${from.source})`,
+        toLabel: `revision ${to.revision} (${to.source})`,
+    });
+}
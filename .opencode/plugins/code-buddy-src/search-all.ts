@@ -0,0 +1,104 @@
+/**
+ * Unified search across memories, entities, relations, mistakes and the
+ * plugin log. Entity hits are expanded through the knowledge graph: their
+ * relations and the memories that mention them are surfaced too.
+ */
+
+import type { MemoryEntry, Entity, Relation, MistakeRecord } from "./types";
+import { rankRecords } from "./search";
+import { hybridSearch } from "./embeddings";
+import type { PluginState } from "./state";
+
+/** Log lines scanned by a unified search (the log is rotated at 512 KB). */
+const LOG_SCAN_LINES = 5000;
+
+export interface LinkedHit<T> {
+    item: T;
+    /** Why a record without a direct match was included, e.g. `mentions entity "AuthService"`. */
+    via?: string;
+}
+
+export interface UnifiedResults {
+    memories: LinkedHit<MemoryEntry>[];
+    entities: LinkedHit<Entity>[];
+    relations: LinkedHit<Relation>[];
+    mistakes: MistakeRecord[];
+    logs: string[];
+}
+
+export const UNIFIED_GROUPS = ["memories", "entities", "relations", "mistakes", "logs"] as const;
+export type UnifiedGroup = (typeof UNIFIED_GROUPS)[number];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Does `text` mention `name` as a whole word (case-insensitive)? */
+function mentions(text: string, name: string): boolean {
+    return new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(name)}($|[^\\p{L}\\p{N}_])`, "iu").test(text);
+}
+
+/** Rank log lines with BM25, newest first on ties. */
+function searchLogs(s: PluginState, query: string): string[] {
+    const lines = s.readLogs(LOG_SCAN_LINES).map((text, i) => ({
+        id: String(i),
+        text,
+        time: text.match(/^\[([^\]]+)\]/)?.[1] ?? "",
+    }));
+    return rankRecords(lines, query, { fields: [{ name: "text", boost: 1 }], timeField: "time" }).map((l) => l.text);
+}
+
+/**
+ * Search every collection for `query`. Each group holds up to `limit` direct
+ * hits (ranked), followed by records reached through a matching entity.
+ */
+export async function searchAll(
+    s: PluginState,
+    query: string,
+    opts: { global?: boolean; limit?: number; groups?: UnifiedGroup[] } = {},
+): Promise<UnifiedResults> {
+    const limit = opts.limit ?? 5;
+    const wanted = new Set<UnifiedGroup>(opts.groups?.length ? opts.groups : UNIFIED_GROUPS);
+    const memories = s.inScope(s.memories, opts.global);
+    const entities = s.inScope(s.entities, opts.global);
+    const relations = s.inScope(s.relations, opts.global);
+
+    const entityHits = s.search("entities", entities, query).slice(0, limit);
+    const entityResults: LinkedHit<Entity>[] = entityHits.map((item) => ({ item }));
+    const relationResults: LinkedHit<Relation>[] = s.search("relations", relations, query).slice(0, limit).map((item) => ({ item }));
+    const memoryResults: LinkedHit<MemoryEntry>[] = wanted.has("memories")
+        ? (await hybridSearch(s, memories, query)).slice(0, limit).map((item) => ({ item }))
+        : [];
+
+    // Follow the graph from matching entities: their relations, neighbours and the memories that mention them
+    const seen = new Set([...entityResults, ...relationResults, ...memoryResults].map((r) => r.item.id));
+    for (const entity of entityHits) {
+        for (const rel of relations.filter((r) => r.from === entity.name || r.to === entity.name)) {
+            if (!seen.has(rel.id)) {
+                seen.add(rel.id);
+                relationResults.push({ item: rel, via: `relation of entity "${entity.name}"` });
+            }
+            const other = rel.from === entity.name ? rel.to : rel.from;
+            const neighbour = entities.find((e) => e.name === other);
+            if (neighbour && !seen.has(neighbour.id)) {
+                seen.add(neighbour.id);
+                entityResults.push({ item: neighbour, via: `${rel.from} --[${rel.type}]--> ${rel.to}` });
+            }
+        }
+        const linked = memories
+            .filter((m) => !seen.has(m.id) && mentions(`${m.title}\n${m.content}\n${m.tags.join(" ")}`, entity.name))
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        for (const m of linked) {
+            seen.add(m.id);
+            memoryResults.push({ item: m, via: `mentions entity "${entity.name}"` });
+        }
+    }
+
+    return {
+        memories: wanted.has("memories") ? memoryResults.slice(0, limit * 2) : [],
+        entities: wanted.has("entities") ? entityResults.slice(0, limit * 2) : [],
+        relations: wanted.has("relations") ? relationResults.slice(0, limit * 2) : [],
+        mistakes: wanted.has("mistakes") ? s.search("mistakes", s.inScope(s.mistakes, opts.global), query).slice(0, limit) : [],
+        logs: wanted.has("logs") ? searchLogs(s, query).slice(0, limit) : [],
+    };
+}
@@ -0,0 +1,211 @@
+/**
+ * In-memory inverted index with BM25 ranking.
+ *
+ * Each collection gets one SearchIndex over a few weighted fields (e.g.
+ * memory title > tags > content). Scores are summed per field (BM25F-lite),
+ * ties are broken by recency. The index is kept in sync incrementally:
+ * `sync()` re-indexes only records whose indexed fields changed.
+ */
+
+import type { CollectionName } from "./types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRecord = { id: string; [key: string]: any };
+
+export interface SearchField {
+    name: string;
+    boost: number;
+}
+
+export interface SearchConfig {
+    fields: SearchField[];
+    /** Field holding the record's date, used to break ties (newest first). */
+    timeField: string;
+}
+
+/** Indexed fields per collection. */
+export const SEARCH_CONFIG: Record<Exclude<CollectionName, "revisions" | "trash" | "vectors" | "injections">, SearchConfig> = {
+    memories: {
+        fields: [{ name: "title", boost: 3 }, { name: "tags", boost: 2 }, { name: "content", boost: 1 }],
+        timeField: "timestamp",
+    },
+    entities: {
+        fields: [{ name: "name", boost: 3 }, { name: "tags", boost: 2 }, { name: "observations", boost: 1 }],
+        timeField: "createdAt",
+    },
+    relations: {
+        fields: [{ name: "from", boost: 2 }, { name: "to", boost: 2 }, { name: "type", boost: 1.5 }, { name: "description", boost: 1 }],
+        timeField: "createdAt",
+    },
+    mistakes: {
+        fields: [
+            { name: "action", boost: 3 }, { name: "errorType", boost: 2 },
+            { name: "userCorrection", boost: 1 }, { name: "correctMethod", boost: 1 }, { name: "preventionMethod", boost: 1 },
+        ],
+        timeField: "timestamp",
+    },
+};
+
+export type SearchableCollection = keyof typeof SEARCH_CONFIG;
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it",
+    "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "with",
+]);
+
+/** Light suffix stripping so "bugs"/"bug" and "fixes"/"fix" match. */
+function stem(token: string): string {
+    if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+    if (token.length > 4 && /(?:ss|sh|ch|x)es$/.test(token)) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+    return token;
+}
+
+/** Lowercase word tokens (letters, digits, underscore), stopwords removed, lightly stemmed. */
+export function tokenize(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+    return words.filter((w) => !STOPWORDS.has(w)).map(stem);
+}
+
+function fieldText(value: unknown): string {
+    if (typeof value === "string") return value;
+    if (Array.isArray(value)) return value.map(String).join(" ");
+    return "";
+}
+
+interface IndexedDoc {
+    signature: string;
+    time: number;
+    /** Term frequencies per field. */
+    tf: Map<string, number>[];
+    lengths: number[];
+}
+
+export interface SearchHit {
+    id: string;
+    score: number;
+}
+
+export class SearchIndex {
+    private config: SearchConfig;
+    private docs = new Map<string, IndexedDoc>();
+    /** term → ids of docs containing it (in any field). */
+    private postings = new Map<string, Set<string>>();
+    private totalLengths: number[];
+
+    constructor(config: SearchConfig) {
+        this.config = config;
+        this.totalLengths = config.fields.map(() => 0);
+    }
+
+    get size(): number {
+        return this.docs.size;
+    }
+
+    /** Add or replace one record. */
+    upsert(item: AnyRecord): void {
+        const texts = this.config.fields.map((f) => fieldText(item[f.name]));
+        const signature = JSON.stringify(texts);
+        const existing = this.docs.get(item.id);
+        const time = new Date(item[this.config.timeField] ?? 0).getTime() || 0;
+        if (existing?.signature === signature) {
+            existing.time = time;
+            return;
+        }
+        if (existing) this.remove(item.id);
+
+        const tf = texts.map((text) => {
+            const counts = new Map<string, number>();
+            for (const token of tokenize(text)) counts.set(token, (counts.get(token) || 0) + 1);
+            return counts;
+        });
+        const lengths = tf.map((counts) => [...counts.values()].reduce((a, b) => a + b, 0));
+        this.docs.set(item.id, { signature, time, tf, lengths });
+        lengths.forEach((len, i) => { this.totalLengths[i] += len; });
+        for (const counts of tf) {
+            for (const term of counts.keys()) {
+                let ids = this.postings.get(term);
+                if (!ids) this.postings.set(term, (ids = new Set()));
+                ids.add(item.id);
+            }
+        }
+    }
+
+    remove(id: string): void {
+        const doc = this.docs.get(id);
+        if (!doc) return;
+        this.docs.delete(id);
+        doc.lengths.forEach((len, i) => { this.totalLengths[i] -= len; });
+        for (const counts of doc.tf) {
+            for (const term of counts.keys()) {
+                const ids = this.postings.get(term);
+                ids?.delete(id);
+                if (ids && ids.size === 0) this.postings.delete(term);
+            }
+        }
+    }
+
+    /** Bring the index in line with `items`: re-index changed records, drop missing ones. */
+    sync(items: AnyRecord[]): void {
+        const seen = new Set<string>();
+        for (const item of items) {
+            seen.add(item.id);
+            this.upsert(item);
+        }
+        for (const id of [...this.docs.keys()]) {
+            if (!seen.has(id)) this.remove(id);
+        }
+    }
+
+    /**
+     * Rank documents for `query`, best first. With an empty query every
+     * document matches with score 0 (i.e. newest first).
+     */
+    search(query: string, allowed?: Set<string>): SearchHit[] {
+        const terms = [...new Set(tokenize(query))];
+        const n = this.docs.size;
+        const hits: Array<SearchHit & { time: number }> = [];
+
+        if (terms.length === 0) {
+            for (const [id, doc] of this.docs) {
+                if (!allowed || allowed.has(id)) hits.push({ id, score: 0, time: doc.time });
+            }
+        } else {
+            const avgLengths = this.totalLengths.map((total) => (n > 0 ? total / n : 0) || 1);
+            const candidates = new Set<string>();
+            for (const term of terms) for (const id of this.postings.get(term) || []) candidates.add(id);
+
+            for (const id of candidates) {
+                if (allowed && !allowed.has(id)) continue;
+                const doc = this.docs.get(id)!;
+                let score = 0;
+                for (const term of terms) {
+                    const df = this.postings.get(term)?.size || 0;
+                    if (df === 0) continue;
+                    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+                    this.config.fields.forEach((field, i) => {
+                        const freq = doc.tf[i].get(term);
+                        if (!freq) return;
+                        const norm = freq * (K1 + 1) / (freq + K1 * (1 - B + B * doc.lengths[i] / avgLengths[i]));
+                        score += field.boost * idf * norm;
+                    });
+                }
+                hits.push({ id, score, time: doc.time });
+            }
+        }
+
+        hits.sort((a, b) => (Math.abs(b.score - a.score) > 1e-9 ? b.score - a.score : b.time - a.time));
+        return hits.map(({ id, score }) => ({ id, score }));
+    }
+}
+
+/** One-off ranked search over `items` (builds a throwaway index). */
+export function rankRecords<T extends AnyRecord>(items: T[], query: string, config: SearchConfig): T[] {
+    const index = new SearchIndex(config);
+    index.sync(items);
+    const byId = new Map(items.map((i) => [i.id, i]));
+    return index.search(query).map((hit) => byId.get(hit.id)!);
+}
@@ -0,0 +1,179 @@
+/**
+ * Session diffs — one unified diff per file a session edited. Each file is
+ * snapshotted before its first edit and after its last, so the diff shows the
+ * session's net change no matter which tool made it. Files without snapshots
+ * (replayed journals, files too large to keep) fall back to the per-edit
+ * diffs on the observations.
+ */
+
+import * as fs from "node:fs";
+import type { Observation, FileSnapshot, FileDiff, PluginConfig } from "./types";
+import { unifiedDiff } from "./diff";
+import { redactText } from "./redact";
+import type { PluginState } from "./state";
+
+/** Largest file kept in memory as a snapshot (and diffed — the LCS table grows with line count). */
+const MAX_SNAPSHOT_CHARS = 200_000;
+const MAX_SNAPSHOT_LINES = 3000;
+/** Most files snapshotted per session. */
+const MAX_SNAPSHOT_FILES = 50;
+/** Longest diff kept per file. */
+const MAX_FILE_DIFF_CHARS = 2000;
+/** A "before" whose tool.execute.after never came (the tool threw) is dropped after this long. */
+const PENDING_SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Current content of a file: null when it does not exist, undefined when it
+ * can't be snapshotted (unreadable, too large or binary).
+ */
+export function readSnapshot(filePath: string): string | null | undefined {
+    let content: string;
+    try {
+        if (fs.statSync(filePath).size > MAX_SNAPSHOT_CHARS * 4) return undefined;
+        content = fs.readFileSync(filePath, "utf-8");
+    } catch (err) {
+        return (err as NodeJS.ErrnoException).code === "ENOENT" ? null : undefined;
+    }
+    if (content.length > MAX_SNAPSHOT_CHARS || content.includes("\0")) return undefined;
+    if (content.split("\n").length > MAX_SNAPSHOT_LINES) return undefined;
+    return content;
+}
+
+/**
+ * File content read in tool.execute.before, held until the same call's
+ * tool.execute.after. Keyed by session and path, so sessions editing the same
+ * file at once never take each other's "before". Entries never taken age out.
+ */
+export class PendingSnapshots {
+    private readonly pending = new Map<string, { content: string | null | undefined; capturedAt: number }>();
+
+    capture(sessionId: string, filePath: string, now = Date.now()): void {
+        for (const [key, entry] of this.pending) {
+            if (now - entry.capturedAt > PENDING_SNAPSHOT_TTL_MS) this.pending.delete(key);
+        }
+        this.pending.set(`${sessionId}:${filePath}`, { content: readSnapshot(filePath), capturedAt: now });
+    }
+
+    /** The captured content (undefined when none), removed from the pending set. */
+    take(sessionId: string, filePath: string): string | null | undefined {
+        const key = `${sessionId}:${filePath}`;
+        const entry = this.pending.get(key);
+        this.pending.delete(key);
+        return entry?.content;
+    }
+
+    get size(): number {
+        return this.pending.size;
+    }
+}
+
+/**
+ * Record an edit of `filePath` in a session. `before` is the content read
+ * before the edit ran; it only counts for the session's first edit of the
+ * file. The file is re-read as the latest `after`.
+ */
+export function recordFileEdit(s: PluginState, sessionId: string, filePath: string, before: string | null | undefined): void {
+    const files = s.sessionFileSnapshots(sessionId);
+    if (!files[filePath]) {
+        if (before === undefined || Object.keys(files).length >= MAX_SNAPSHOT_FILES) return;
+        files[filePath] = { before, after: before };
+    }
+    const after = readSnapshot(filePath);
+    // Grew past the limits — the per-edit diffs will be used instead
+    if (after === undefined) delete files[filePath];
+    else files[filePath].after = after;
+}
+
+/** Added and removed lines of a unified diff (headers and hunk markers excluded). */
+export function diffSides(diff: string): { added: string[]; removed: string[] } {
+    const added: string[] = [];
+    const removed: string[] = [];
+    const lines = diff.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        // "--- a" + "+++ b" file header (a removed "-- comment" line alone is not one)
+        if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) { i++; continue; }
+        if (line.startsWith("+")) added.push(line.substring(1));
+        else if (line.startsWith("-")) removed.push(line.substring(1));
+    }
+    return { added, removed };
+}
+
+function toFileDiff(file: string, diff: string, created: boolean): FileDiff {
+    return {
+        file,
+        diff: diff.length > MAX_FILE_DIFF_CHARS ? `${diff.substring(0, MAX_FILE_DIFF_CHARS)}\n…` : diff,
+        ...diffSides(diff),
+        created,
+    };
+}
+
+/** Diff of an edit's old/new strings, for observations recorded without a `diff` field. */
+function argsDiff(o: Observation): string | undefined {
+    const before = o.args.old_string ?? o.args.oldString ?? o.args.old;
+    const after = o.args.new_string ?? o.args.newString ?? o.args.new;
+    if (typeof before !== "string" && typeof after !== "string") return undefined;
+    const label = o.fileEdited;
+    return unifiedDiff(String(before ?? ""), String(after ?? ""), { fromLabel: label, toLabel: label, context: 1 }) || undefined;
+}
+
+/** Snapshot text to diff: redacted, without the final newline (so new files don't gain an empty last line). */
+function diffText(content: string | null, redaction?: PluginConfig["redaction"]): string {
+    const text = (content ?? "").replace(/\n$/, "");
+    return redaction ? redactText(text, redaction) : text;
+}
+
+/**
+ * One diff per edited file: from the snapshots when the file has them,
+ * otherwise the observations' per-edit diffs joined in order. Snapshots are
+ * redacted here; observation diffs already were when buffered.
+ */
+export function sessionDiffs(
+    buf: Observation[],
+    snapshots: Record<string, FileSnapshot> = {},
+    redaction?: PluginConfig["redaction"],
+): FileDiff[] {
+    const diffs = new Map<string, FileDiff>();
+    for (const [file, snapshot] of Object.entries(snapshots)) {
+        if (snapshot.before === snapshot.after) continue;
+        const diff = unifiedDiff(diffText(snapshot.before, redaction), diffText(snapshot.after, redaction), {
+            fromLabel: snapshot.before === null ? "/dev/null" : file,
+            toLabel: snapshot.after === null ? "/dev/null" : file,
+            context: 1,
+        });
+        if (!diff) continue;
+        diffs.set(file, toFileDiff(file, diff, snapshot.before === null));
+    }
+
+    const perEdit = new Map<string, string[]>();
+    for (const o of buf) {
+        const file = o.fileEdited ?? "";
+        if (!o.isWriteAction || diffs.has(file) || (file && file in snapshots)) continue;
+        const diff = o.diff ?? argsDiff(o);
+        if (diff) perEdit.set(file, [...(perEdit.get(file) ?? []), diff]);
+    }
+    for (const [file, parts] of perEdit) diffs.set(file, toFileDiff(file, parts.join("\n"), false));
+
+    return [...diffs.values()];
+}
+
+/** "game.js +12/-3, index.html +1/-0" */
+export function diffStat(diffs: FileDiff[]): string {
+    return diffs
+        .map((d) => `${d.file.split("/").pop() || "edit"} +${d.added.length}/-${d.removed.length}`)
+        .join(", ");
+}
+
+/** The diffs as one text block, cut to `maxChars` at a file boundary where possible. */
+export function renderDiffs(diffs: FileDiff[], maxChars: number): string {
+    const parts: string[] = [];
+    let used = 0;
+    for (const d of diffs) {
+        const remaining = maxChars - used;
+        if (remaining <= 0) break;
+        const text = d.diff.length > remaining ? `${d.diff.substring(0, remaining)}\n…` : d.diff;
+        parts.push(text);
+        used += text.length + 1;
+    }
+    return parts.join("\n");
+}
@@ -0,0 +1,160 @@
+/**
+ * Rotating, timestamped snapshots of all persisted collections.
+ *
+ * A snapshot is a single JSON file in `<dataDir>/snapshots/` holding every
+ * collection as it was at that moment, next to a small `<id>.info.json`
+ * with its metadata so listing snapshots never reads the full copies. Snapshots are taken daily, before
+ * restores and trash purges, and (throttled) before dedup merges; deletes
+ * go to the trash instead. They can be diffed against — or restored into —
+ * the live state. A pre-purge snapshot also keeps the trash entries the
+ * purge deletes, so they can be put back in the trash.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRecord = { id: string; project?: string; [key: string]: any };
+
+/** Collections captured in snapshots (history collections such as revisions are not). */
+export type SnapshotCollection = "memories" | "entities" | "relations" | "mistakes";
+
+export type SnapshotData = Record<SnapshotCollection, AnyRecord[]>;
+
+export const SNAPSHOT_COLLECTIONS: SnapshotCollection[] = ["memories", "entities", "relations", "mistakes"];
+
+export interface SnapshotInfo {
+    id: string;
+    createdAt: string;
+    reason: string;
+    counts: Record<SnapshotCollection, number>;
+}
+
+interface SnapshotFile extends SnapshotInfo {
+    collections: SnapshotData;
+    /** Trash entries permanently deleted by the purge this snapshot preceded. */
+    purged?: AnyRecord[];
+}
+
+export interface CollectionDiff {
+    /** Records present now but not in the snapshot. */
+    added: AnyRecord[];
+    /** Records in the snapshot that are gone now. */
+    removed: AnyRecord[];
+    /** Records whose content differs — `before` is the snapshot version. */
+    changed: Array<{ before: AnyRecord; after: AnyRecord }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INFO_SUFFIX = ".info.json";
+
+function snapshotDir(baseDir: string): string {
+    return path.join(baseDir, "snapshots");
+}
+
+/** Write `content` to `target` via a temp file, so readers never see a partial file. */
+function writeAtomic(target: string, content: string): void {
+    const tmp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, content, "utf-8");
+    fs.renameSync(tmp, target);
+}
+
+/** Write a snapshot of `data` (plus any trash entries about to be `purged`) and prune the oldest beyond `keep`. */
+export function takeSnapshot(baseDir: string, data: SnapshotData, reason: string, keep: number, purged: AnyRecord[] = []): SnapshotInfo {
+    const dir = snapshotDir(baseDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const createdAt = new Date().toISOString();
+    const safeReason = reason.replace(/[^\w-]+/g, "-").substring(0, 40);
+    const id = `${createdAt.replace(/[:.]/g, "-")}_${safeReason}`;
+    const counts = Object.fromEntries(SNAPSHOT_COLLECTIONS.map((c) => [c, data[c].length])) as Record<SnapshotCollection, number>;
+    const file: SnapshotFile = { id, createdAt, reason, counts, collections: data, ...(purged.length > 0 ? { purged } : {}) };
+
+    const info: SnapshotInfo = { id, createdAt, reason, counts };
+    writeAtomic(path.join(dir, `${id}.json`), JSON.stringify(file));
+    writeAtomic(path.join(dir, `${id}${INFO_SUFFIX}`), JSON.stringify(info));
+
+    pruneSnapshots(baseDir, keep);
+    return info;
+}
+
+/** Metadata of one snapshot, from its info file — backfilled from the full file for older snapshots. */
+function readInfo(dir: string, id: string): SnapshotInfo | null {
+    const infoPath = path.join(dir, `${id}${INFO_SUFFIX}`);
+    try {
+        return JSON.parse(fs.readFileSync(infoPath, "utf-8")) as SnapshotInfo;
+    } catch {
+        // Missing (snapshot taken before info files existed) or unreadable
+    }
+    try {
+        const { createdAt, reason, counts } = JSON.parse(fs.readFileSync(path.join(dir, `${id}.json`), "utf-8")) as SnapshotFile;
+        const info: SnapshotInfo = { id, createdAt, reason, counts };
+        try { writeAtomic(infoPath, JSON.stringify(info)); } catch { /* read-only dir: parse again next time */ }
+        return info;
+    } catch {
+        return null;
+    }
+}
+
+/** Snapshot metadata, newest first. */
+export function listSnapshots(baseDir: string): SnapshotInfo[] {
+    const dir = snapshotDir(baseDir);
+    if (!fs.existsSync(dir)) return [];
+
+    const infos: SnapshotInfo[] = [];
+    for (const name of fs.readdirSync(dir)) {
+        if (!name.endsWith(".json") || name.endsWith(INFO_SUFFIX)) continue;
+        const info = readInfo(dir, name.slice(0, -".json".length));
+        if (info) infos.push(info); // unreadable snapshot files are skipped
+    }
+    return infos.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Load a snapshot's collections by id (or unique id prefix). Returns null if not found. */
+export function loadSnapshot(baseDir: string, id: string): (SnapshotInfo & { collections: SnapshotData; purged: AnyRecord[] }) | null {
+    const match = listSnapshots(baseDir).filter((s) => s.id === id || s.id.startsWith(id));
+    if (match.length !== 1) return null;
+    try {
+        const file = JSON.parse(fs.readFileSync(path.join(snapshotDir(baseDir), `${match[0].id}.json`), "utf-8")) as SnapshotFile;
+        for (const c of SNAPSHOT_COLLECTIONS) file.collections[c] = file.collections[c] || [];
+        return { ...file, purged: file.purged || [] };
+    } catch {
+        return null;
+    }
+}
+
+/** True when the newest snapshot is older than a day (or none exists). */
+export function isDailySnapshotDue(baseDir: string): boolean {
+    const newest = listSnapshots(baseDir)[0];
+    return !newest || Date.now() - new Date(newest.createdAt).getTime() > DAY_MS;
+}
+
+/** Per-collection differences between a snapshot and the current data. */
+export function diffSnapshot(snapshot: SnapshotData, current: SnapshotData): Record<SnapshotCollection, CollectionDiff> {
+    const result = {} as Record<SnapshotCollection, CollectionDiff>;
+    for (const c of SNAPSHOT_COLLECTIONS) {
+        const before = new Map(snapshot[c].map((r) => [r.id, r]));
+        const after = new Map(current[c].map((r) => [r.id, r]));
+        const diff: CollectionDiff = { added: [], removed: [], changed: [] };
+        for (const [id, rec] of after) {
+            const old = before.get(id);
+            if (!old) diff.added.push(rec);
+            else if (JSON.stringify(old) !== JSON.stringify(rec)) diff.changed.push({ before: old, after: rec });
+        }
+        for (const [id, rec] of before) {
+            if (!after.has(id)) diff.removed.push(rec);
+        }
+        result[c] = diff;
+    }
+    return result;
+}
+
+function pruneSnapshots(baseDir: string, keep: number): void {
+    const stale = listSnapshots(baseDir).slice(Math.max(1, keep));
+    for (const info of stale) {
+        for (const suffix of [".json", INFO_SUFFIX]) {
+            try { fs.unlinkSync(path.join(snapshotDir(baseDir), `${info.id}${suffix}`)); } catch { /* already gone */ }
+        }
+    }
+}
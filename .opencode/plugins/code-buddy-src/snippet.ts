@@ -0,0 +1,83 @@
+/**
+ * Search result snippets — the best-matching window of a text with the
+ * query terms marked in bold, so recall output stays small.
+ */
+
+import { tokenize } from "./search";
+
+export type DetailLevel = "compact" | "normal" | "full";
+
+export const DETAIL_LEVELS: DetailLevel[] = ["compact", "normal", "full"];
+
+/** Snippet length per detail level (`full` shows the whole text). */
+export const SNIPPET_CHARS: Record<Exclude<DetailLevel, "full">, number> = {
+    compact: 160,
+    normal: 400,
+};
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+interface Hit {
+    start: number;
+    end: number;
+    term: string;
+}
+
+function findHits(text: string, terms: Set<string>): Hit[] {
+    const hits: Hit[] = [];
+    for (const match of text.matchAll(WORD)) {
+        const term = tokenize(match[0])[0];
+        if (term && terms.has(term)) hits.push({ start: match.index!, end: match.index! + match[0].length, term });
+    }
+    return hits;
+}
+
+/** Wrap every word matching one of `terms` (after stemming) in `**`. */
+export function highlightTerms(text: string, terms: string[]): string {
+    const termSet = new Set(tokenize(terms.join(" ")));
+    if (termSet.size === 0) return text;
+    return text.replace(WORD, (word) => {
+        const term = tokenize(word)[0];
+        return term && termSet.has(term) ? `**${word}**` : word;
+    });
+}
+
+/**
+ * The `maxChars` window of `text` containing the most distinct query terms
+ * (then the most matches), cut at word boundaries, whitespace collapsed and
+ * matches highlighted. Falls back to the start of the text when nothing matches.
+ */
+export function extractSnippet(text: string, terms: string[], maxChars = SNIPPET_CHARS.normal): string {
+    const flat = text.replace(/\s+/g, " ").trim();
+    if (flat.length <= maxChars) return highlightTerms(flat, terms);
+
+    const hits = findHits(flat, new Set(tokenize(terms.join(" "))));
+    let start = 0;
+    if (hits.length > 0) {
+        // Slide a window that starts a little before each hit; keep the richest one
+        let bestScore = -1;
+        const lead = Math.floor(maxChars / 5);
+        for (let i = 0; i < hits.length; i++) {
+            const from = Math.max(0, hits[i].start - lead);
+            const inside = hits.filter((h) => h.start >= from && h.end <= from + maxChars);
+            const score = new Set(inside.map((h) => h.term)).size * 1000 + inside.length;
+            if (score > bestScore) {
+                bestScore = score;
+                start = from;
+            }
+        }
+        start = Math.min(start, flat.length - maxChars);
+    }
+
+    let end = Math.min(flat.length, start + maxChars);
+    if (start > 0) {
+        const space = flat.indexOf(" ", start);
+        if (space !== -1 && space < end) start = space + 1;
+    }
+    if (end < flat.length) {
+        const space = flat.lastIndexOf(" ", end);
+        if (space > start) end = space;
+    }
+    const snippet = highlightTerms(flat.slice(start, end), terms);
+    return `${start > 0 ? "…" : ""}${snippet}${end < flat.length ? "…" : ""}`;
+}
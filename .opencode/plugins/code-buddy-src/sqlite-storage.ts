@@ -0,0 +1,314 @@
+/**
+ * SQLite storage backend built on node:sqlite.
+ *
+ * Every record lives in one `records` table keyed by (collection, id), so a
+ * save only touches the rows that actually changed and never rewrites the
+ * whole dataset. Writes run inside IMMEDIATE transactions (serialised across
+ * processes by SQLite's own locking), and memories are mirrored into an FTS5
+ * index, kept in sync in the same transaction, that ranks memory searches.
+ * Commits from other processes are detected by polling `PRAGMA data_version`.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createRequire } from "node:module";
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import type { CollectionName, StorageBackend } from "./types";
+import { COLLECTIONS } from "./types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LogFn = (...args: any[]) => void;
+
+const DB_FILENAME = "code-buddy.db";
+const WATCH_POLL_MS = 2_000;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS records (
+    collection TEXT NOT NULL,
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (collection, id)
+);
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(id UNINDEXED, title, content, tags, tokenize = 'porter unicode61');
+`;
+
+/** Load node:sqlite lazily so the JSON backend keeps working on runtimes without it. */
+function loadSqlite(): typeof import("node:sqlite") {
+    const require = createRequire(import.meta.url);
+    return require("node:sqlite");
+}
+
+export class SqliteStorage implements StorageBackend {
+    readonly kind = "sqlite" as const;
+    private baseDir: string;
+    private log: LogFn;
+    private db: DatabaseSync;
+    /** Last persisted JSON per record — lets save() write only the rows that changed. */
+    private rowCache = new Map<CollectionName, Map<string, string>>();
+    private stmts: {
+        select: StatementSync;
+        upsert: StatementSync;
+        remove: StatementSync;
+        ftsDelete: StatementSync;
+        ftsInsert: StatementSync;
+        ftsSearch: StatementSync;
+        count: StatementSync;
+        dataVersion: StatementSync;
+        getMeta: StatementSync;
+        setMeta: StatementSync;
+    };
+
+    constructor(dataDir: string, log: LogFn = console.log) {
+        this.baseDir = dataDir;
+        this.log = log;
+        if (!fs.existsSync(this.baseDir)) {
+            fs.mkdirSync(this.baseDir, { recursive: true });
+        }
+
+        const { DatabaseSync } = loadSqlite();
+        this.db = new DatabaseSync(path.join(this.baseDir, DB_FILENAME));
+        this.db.exec("PRAGMA journal_mode = WAL");
+        this.db.exec("PRAGMA busy_timeout = 5000");
+        this.db.exec(SCHEMA);
+
+        this.stmts = {
+            select: this.db.prepare("SELECT id, data FROM records WHERE collection = ? ORDER BY rowid"),
+            upsert: this.db.prepare(
+                "INSERT INTO records (collection, id, data, updated_at) VALUES (?, ?, ?, ?) "
+                + "ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at",
+            ),
+            remove: this.db.prepare("DELETE FROM records WHERE collection = ? AND id = ?"),
+            ftsDelete: this.db.prepare("DELETE FROM memories_fts WHERE id = ?"),
+            ftsInsert: this.db.prepare("INSERT INTO memories_fts (id, title, content, tags) VALUES (?, ?, ?, ?)"),
+            // Column weights match the in-memory index: title 3, tags 2, content 1
+            ftsSearch: this.db.prepare(
+                "SELECT id, bm25(memories_fts, 0, 3.0, 1.0, 2.0) AS rank FROM memories_fts WHERE memories_fts MATCH ? ORDER BY rank",
+            ),
+            count: this.db.prepare("SELECT COUNT(*) AS n FROM records WHERE collection = ?"),
+            dataVersion: this.db.prepare("PRAGMA data_version"),
+            getMeta: this.db.prepare("SELECT value FROM meta WHERE key = ?"),
+            setMeta: this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"),
+        };
+        this.syncMemoryIndex();
+    }
+
+    getBaseDir(): string {
+        return this.baseDir;
+    }
+
+    load<T extends { id: string }>(collection: CollectionName): T[] {
+        const { items, rows } = this.readRows<T>(collection);
+        this.rowCache.set(collection, rows);
+        return items;
+    }
+
+    /**
+     * Row-level save: upserts records whose JSON changed since the last
+     * load/save and deletes records this process knew about but dropped.
+     * Rows written by other processes that we never loaded are left alone.
+     */
+    save<T extends { id: string }>(collection: CollectionName, items: T[]): boolean {
+        const previous = this.rowCache.get(collection) || new Map<string, string>();
+        try {
+            let next = previous;
+            this.transaction(() => { next = this.writeRows(collection, previous, items); });
+            this.rowCache.set(collection, next);
+            return true;
+        } catch (error) {
+            this.log(`[code-buddy] Error saving ${collection} to SQLite:`, error);
+            return false;
+        }
+    }
+
+    update<T extends { id: string }>(collection: CollectionName, merge: (current: T[]) => T[]): T[] | null {
+        try {
+            let result: T[] = [];
+            let next = new Map<string, string>();
+            this.transaction(() => {
+                const current = this.readRows<T>(collection);
+                result = merge(current.items);
+                next = this.writeRows(collection, current.rows, result);
+            });
+            this.rowCache.set(collection, next);
+            return result;
+        } catch (error) {
+            this.log(`[code-buddy] Error saving ${collection} to SQLite:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Poll `PRAGMA data_version`, which changes only when another connection
+     * commits. The database doesn't record which collection changed, so every
+     * collection is reported.
+     */
+    watch(onChange: (collection: CollectionName) => void): () => void {
+        let lastVersion = this.dataVersion();
+        const timer = setInterval(() => {
+            try {
+                const version = this.dataVersion();
+                if (version === lastVersion) return;
+                lastVersion = version;
+                for (const collection of COLLECTIONS) onChange(collection);
+            } catch (error) {
+                this.log("[code-buddy] SQLite change poll failed:", error);
+            }
+        }, WATCH_POLL_MS);
+        timer.unref?.();
+        return () => clearInterval(timer);
+    }
+
+    /**
+     * Full-text search over memories (title, content, tags), best match first.
+     * `terms` are already tokenized; a memory matches when it has any of them.
+     */
+    searchMemories(terms: string[]): Array<{ id: string; score: number }> {
+        if (terms.length === 0) return [];
+        const match = terms.map((t) => `"${t.replace(/"/g, "\"\"")}"`).join(" OR ");
+        try {
+            // bm25() is lower-is-better; flip it so higher scores rank first, as in SearchIndex
+            return (this.stmts.ftsSearch.all(match) as Array<{ id: string; rank: number }>).map((r) => ({ id: r.id, score: -r.rank }));
+        } catch (error) {
+            this.log("[code-buddy] FTS search error:", error);
+            return [];
+        }
+    }
+
+    getSchemaVersion(collection: CollectionName): number {
+        const stored = this.getMeta(`schema_version:${collection}`);
+        if (stored) return Number(stored);
+        return this.count(collection) > 0 ? 1 : 0;
+    }
+
+    saveMigrated<T extends { id: string }>(collection: CollectionName, items: T[], schemaVersion: number): boolean {
+        if (!this.rowCache.has(collection)) this.load(collection);
+        if (!this.save(collection, items)) return false;
+        this.setMeta(`schema_version:${collection}`, String(schemaVersion));
+        return true;
+    }
+
+    count(collection: CollectionName): number {
+        const row = this.stmts.count.get(collection) as { n: number } | undefined;
+        return row?.n ?? 0;
+    }
+
+    getMeta(key: string): string | undefined {
+        const row = this.stmts.getMeta.get(key) as { value: string } | undefined;
+        return row?.value;
+    }
+
+    setMeta(key: string, value: string): void {
+        this.stmts.setMeta.run(key, value);
+    }
+
+    close(): void {
+        try { this.db.close(); } catch { /* already closed */ }
+    }
+
+    private dataVersion(): number {
+        const row = this.stmts.dataVersion.get() as { data_version: number } | undefined;
+        return row?.data_version ?? 0;
+    }
+
+    private readRows<T>(collection: CollectionName): { items: T[]; rows: Map<string, string> } {
+        const rows = new Map<string, string>();
+        const items: T[] = [];
+        for (const row of this.stmts.select.all(collection) as Array<{ id: string; data: string }>) {
+            try {
+                items.push(JSON.parse(row.data) as T);
+                rows.set(row.id, row.data);
+            } catch (error) {
+                this.log(`[code-buddy] Skipping unreadable ${collection} row ${row.id}:`, error);
+            }
+        }
+        return { items, rows };
+    }
+
+    /**
+     * Upsert records whose JSON differs from `previous` and delete ids that are
+     * in `previous` but not in `items`. Must run inside a transaction.
+     */
+    private writeRows<T extends { id: string }>(collection: CollectionName, previous: Map<string, string>, items: T[]): Map<string, string> {
+        const next = new Map<string, string>();
+        const now = new Date().toISOString();
+        for (const item of items) {
+            const data = JSON.stringify(item);
+            next.set(item.id, data);
+            if (previous.get(item.id) === data) continue;
+            this.stmts.upsert.run(collection, item.id, data, now);
+            if (collection === "memories") this.indexMemory(item);
+        }
+        for (const id of previous.keys()) {
+            if (next.has(id)) continue;
+            this.stmts.remove.run(collection, id);
+            if (collection === "memories") this.stmts.ftsDelete.run(id);
+        }
+        return next;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private indexMemory(item: any): void {
+        this.stmts.ftsDelete.run(item.id);
+        this.stmts.ftsInsert.run(
+            item.id,
+            String(item.title || ""),
+            String(item.content || ""),
+            Array.isArray(item.tags) ? item.tags.join(" ") : "",
+        );
+    }
+
+    /** Rebuild the FTS index when it doesn't cover every memory row (new index, older database). */
+    private syncMemoryIndex(): void {
+        const indexed = (this.db.prepare("SELECT COUNT(*) AS n FROM memories_fts").get() as { n: number }).n;
+        if (indexed === this.count("memories")) return;
+        this.transaction(() => {
+            this.db.exec("DELETE FROM memories_fts");
+            for (const row of this.stmts.select.all("memories") as Array<{ id: string; data: string }>) {
+                try {
+                    this.indexMemory(JSON.parse(row.data));
+                } catch { /* unreadable rows are skipped by load() too */ }
+            }
+        });
+    }
+
+    private transaction(fn: () => void): void {
+        this.db.exec("BEGIN IMMEDIATE");
+        try {
+            fn();
+            this.db.exec("COMMIT");
+        } catch (error) {
+            this.db.exec("ROLLBACK");
+            throw error;
+        }
+    }
+}
+
+/**
+ * One-shot import of the JSON files into a fresh SQLite database.
+ * Runs only once per database (tracked in the meta table); the JSON files
+ * are left in place untouched as a fallback.
+ */
+export function migrateJsonToSqlite(json: StorageBackend, sqlite: SqliteStorage, log: LogFn = console.log): void {
+    if (sqlite.getMeta("json_migrated_at")) return;
+
+    const imported: string[] = [];
+    for (const collection of COLLECTIONS) {
+        if (sqlite.count(collection) > 0) continue;
+        const items = json.load<{ id: string }>(collection).filter((i) => i && typeof i.id === "string");
+        if (items.length === 0) continue;
+        if (!sqlite.saveMigrated(collection, items, json.getSchemaVersion(collection))) {
+            throw new Error(`Failed to import ${collection} into SQLite`);
+        }
+        imported.push(`${items.length} ${collection}`);
+    }
+
+    sqlite.setMeta("json_migrated_at", new Date().toISOString());
+    if (imported.length > 0) {
+        log(`[code-buddy] 📦 Migrated JSON data to SQLite: ${imported.join(", ")}`);
+    }
+}
@@ -8,13 +8,29 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type {
-    MemoryEntry, Entity, Relation, MistakeRecord,
-    SessionState, Observation, SessionBuffer, PendingDeletion, ProviderInfo, PluginConfig,
+    MemoryEntry, Entity, Relation, MistakeRecord, MemoryRevision, TrashEntry, MemoryVector, GuideInjection,
+    SessionState, Observation, SessionBuffer, FileSnapshot, PendingDeletion, ProviderInfo, PluginConfig,
+    StorageBackend, CollectionName, MemorySource, MemoryProvenance,
 } from "./types";
-import { LocalStorage } from "./storage";
+import { COLLECTIONS } from "./types";
 import { getMemoryCategory, nowTimestamp } from "./helpers";
+import { inProject, readGitInfo } from "./project";
+import { runMigrations } from "./migrations";
+import { purgeExpiredTrash } from "./trash";
+import { takeSnapshot, isDailySnapshotDue } from "./snapshots";
+import type { SnapshotData, SnapshotInfo } from "./snapshots";
+import { threeWayMerge, toBaseline } from "./sync";
+import type { Baseline, MergeResult } from "./sync";
+import { SearchIndex, SEARCH_CONFIG, tokenize } from "./search";
+import type { SearchableCollection } from "./search";
+import { ObservationJournal } from "./journal";
+import { redactRecord } from "./redact";
 
 const MAX_LOG_BYTES = 512 * 1024; // 512 KB before rotation
+const THROTTLED_SNAPSHOT_MS = 15 * 60 * 1000; // at most one automatic pre-merge snapshot per 15 min
+const VECTOR_SAVE_DELAY_MS = 2000; // batch the vector saves of one search or flush
+/** Collections holding no free text, skipped by save-time redaction. */
+const UNREDACTED_COLLECTIONS: CollectionName[] = ["vectors", "injections"];
 
 export class PluginState {
     // Persisted data
@@ -22,32 +38,64 @@ export class PluginState {
     entities: Entity[];
     relations: Relation[];
     mistakes: MistakeRecord[];
+    revisions: MemoryRevision[];
+    trash: TrashEntry[];
+    vectors: MemoryVector[];
+    injections: GuideInjection[];
 
     // Runtime-only
     session: SessionState;
-    pendingDeletion: PendingDeletion | null = null;
+    /** Deletions awaiting their confirm code, keyed by session ID so agents can't confirm each other's. */
+    pendingDeletions: Map<string, PendingDeletion> = new Map();
     /** Per-session observation buffers — each agent/session gets isolated storage. */
     sessionBuffers: Map<string, SessionBuffer> = new Map();
     resolvedProvider: ProviderInfo | null = null;
 
     // References
-    readonly storage: LocalStorage;
+    readonly storage: StorageBackend;
+    /** Git root (or cwd) of the project this plugin instance serves. */
+    readonly projectId: string;
     readonly config: PluginConfig;
     readonly configPath: string;
     readonly client: any; // OpenCode SDK client
+    /** On-disk copy of the observation buffers, replayed after a crash. */
+    readonly journal: ObservationJournal;
     private readonly logFilePath: string;
+    private lastSnapshotAt = 0;
+    /** Per-collection records as last read from / written to storage — the base for three-way merges. */
+    private baselines = new Map<CollectionName, Baseline>();
+    private stopWatching: (() => void) | null = null;
+    private vectorSaveTimer: ReturnType<typeof setTimeout> | null = null;
+    /** Ranked-search indexes, built on first search and kept in sync on every save/reload. */
+    private searchIndexes = new Map<CollectionName, SearchIndex>();
 
-    constructor(storage: LocalStorage, config: PluginConfig, configPath: string, client: unknown) {
+    constructor(storage: StorageBackend, config: PluginConfig, configPath: string, client: unknown, projectId: string) {
         this.storage = storage;
+        this.projectId = projectId;
         this.config = config;
         this.configPath = configPath;
         this.client = client;
         this.logFilePath = path.join(storage.getBaseDir(), "plugin.log");
+        this.journal = new ObservationJournal(path.join(storage.getBaseDir(), "journal"), projectId, (...args) => this.log(...args));
 
-        this.memories = storage.read("memory.json", []);
-        this.entities = storage.read("entities.json", []);
-        this.relations = storage.read("relations.json", []);
-        this.mistakes = storage.read("mistakes.json", []);
+        // Upgrade persisted data to the current schema before anything reads it
+        runMigrations(storage, (...args) => this.log(...args));
+
+        this.memories = storage.load("memories");
+        this.entities = storage.load("entities");
+        this.relations = storage.load("relations");
+        this.mistakes = storage.load("mistakes");
+        this.revisions = storage.load("revisions");
+        this.trash = storage.load("trash");
+        this.vectors = storage.load("vectors");
+        this.injections = storage.load("injections");
+        for (const collection of COLLECTIONS) {
+            this.baselines.set(collection, toBaseline(this.items(collection)));
+        }
+
+        if (isDailySnapshotDue(storage.getBaseDir())) this.createSnapshot("daily");
+        const purged = purgeExpiredTrash(this);
+        if (purged > 0) this.log(`[code-buddy] 🗑️ Purged ${purged} expired trash item(s)`);
 
         this.session = {
             sessionId: `session_${Date.now()}`,
@@ -62,26 +110,199 @@ export class PluginState {
 
     // ---- Persistence ----
 
-    saveMemories(): void {
-        this.storage.write("memory.json", this.memories);
+    saveMemories(): boolean {
+        return this.persist("memories");
+    }
+    saveEntities(): boolean {
+        return this.persist("entities");
+    }
+    saveRelations(): boolean {
+        return this.persist("relations");
+    }
+    saveMistakes(): boolean {
+        return this.persist("mistakes");
+    }
+    saveRevisions(): boolean {
+        return this.persist("revisions");
+    }
+    saveTrash(): boolean {
+        return this.persist("trash");
+    }
+    /**
+     * Vectors are saved after a short delay, so the many embeddings of one
+     * search or flush are written together. `flushVectors` writes them now.
+     */
+    saveVectors(): void {
+        if (this.vectorSaveTimer) return;
+        this.vectorSaveTimer = setTimeout(() => this.flushVectors(), VECTOR_SAVE_DELAY_MS);
+        this.vectorSaveTimer.unref?.();
+    }
+    /** Write pending vector changes immediately (exit paths, tests). */
+    flushVectors(): void {
+        if (!this.vectorSaveTimer) return;
+        clearTimeout(this.vectorSaveTimer);
+        this.vectorSaveTimer = null;
+        this.persist("vectors");
+    }
+    saveInjections(): boolean {
+        return this.persist("injections");
+    }
+
+    /** The live in-memory array backing a collection. */
+    private items(collection: CollectionName): Array<{ id: string }> {
+        switch (collection) {
+            case "memories": return this.memories;
+            case "entities": return this.entities;
+            case "relations": return this.relations;
+            case "mistakes": return this.mistakes;
+            case "revisions": return this.revisions;
+            case "trash": return this.trash;
+            case "vectors": return this.vectors;
+            case "injections": return this.injections;
+        }
+    }
+
+    /**
+     * Merge this process's changes into what is currently stored (under the
+     * storage lock) rather than overwriting it, so records added or edited by
+     * other OpenCode windows survive. The in-memory array is updated in place.
+     * Returns false when the write failed (e.g. the lock timed out).
+     */
+    private persist(collection: CollectionName): boolean {
+        const local = this.items(collection);
+        const base = this.baselines.get(collection) ?? new Map();
+        if (!UNREDACTED_COLLECTIONS.includes(collection)) {
+            // Only new and edited records can carry new secrets
+            for (const item of local) {
+                if (base.get(item.id) !== JSON.stringify(item)) redactRecord(item as unknown as Record<string, unknown>, this.config.redaction);
+            }
+        }
+        let result: MergeResult<{ id: string }> | null = null;
+        const persisted = this.storage.update<{ id: string }>(collection, (current) => {
+            result = threeWayMerge(base, local, current);
+            return result.items;
+        });
+        if (!persisted || !result) return false;
+        this.applyMerge(collection, local, result);
+        this.baselines.set(collection, toBaseline(persisted));
+        this.searchIndexes.get(collection)?.sync(this.items(collection));
+        return true;
+    }
+
+    // ---- Search ----
+
+    /**
+     * BM25-ranked search of `candidates` (a subset of `collection`, e.g. the
+     * in-scope records), best match first; ties go to the newest record.
+     */
+    search<T extends { id: string }>(collection: SearchableCollection, candidates: T[], query: string): T[] {
+        return this.searchScored(collection, candidates, query).map((hit) => hit.item);
     }
-    saveEntities(): void {
-        this.storage.write("entities.json", this.entities);
+
+    /**
+     * Like `search`, with each result's BM25 score. Memory searches use the
+     * backend's full-text index when it has one (SQLite).
+     */
+    searchScored<T extends { id: string }>(collection: SearchableCollection, candidates: T[], query: string): Array<{ item: T; score: number }> {
+        const terms = [...new Set(tokenize(query))];
+        if (collection === "memories" && terms.length > 0 && this.storage.searchMemories) {
+            const byId = new Map(candidates.map((c) => [c.id, c]));
+            return this.storage.searchMemories(terms)
+                .filter((hit) => byId.has(hit.id))
+                .map((hit) => ({ item: byId.get(hit.id) as T, score: hit.score }));
+        }
+        let index = this.searchIndexes.get(collection);
+        if (!index) {
+            index = new SearchIndex(SEARCH_CONFIG[collection]);
+            index.sync(this.items(collection));
+            this.searchIndexes.set(collection, index);
+        }
+        const byId = new Map(candidates.map((c) => [c.id, c]));
+        return index.search(query, new Set(byId.keys())).map((hit) => ({ item: byId.get(hit.id) as T, score: hit.score }));
     }
-    saveRelations(): void {
-        this.storage.write("relations.json", this.relations);
+
+    // ---- Live reload ----
+
+    /** Start merging changes made by other processes into memory as they happen. */
+    watchStorage(): void {
+        if (this.stopWatching) return;
+        this.stopWatching = this.storage.watch((collection) => this.reload(collection));
     }
-    saveMistakes(): void {
-        this.storage.write("mistakes.json", this.mistakes);
+
+    unwatchStorage(): void {
+        this.stopWatching?.();
+        this.stopWatching = null;
+    }
+
+    /** Pull a collection from storage and merge it with unsaved local changes. */
+    reload(collection: CollectionName): void {
+        const local = this.items(collection);
+        const stored = this.storage.load<{ id: string }>(collection);
+        const result = threeWayMerge(this.baselines.get(collection) ?? new Map(), local, stored);
+        this.baselines.set(collection, toBaseline(stored));
+        if (!result.changedLocal) return;
+        this.applyMerge(collection, local, result);
+        this.searchIndexes.get(collection)?.sync(this.items(collection));
+        this.log(`[code-buddy] 🔄 Reloaded ${collection} changed by another process (${stored.length} records)`);
+    }
+
+    private applyMerge(collection: CollectionName, local: Array<{ id: string }>, result: MergeResult<{ id: string }>): void {
+        if (result.conflicts.length > 0) {
+            this.log(`[code-buddy] ⚠️ ${collection}: ${result.conflicts.length} record(s) edited in two windows, kept the newest: ${result.conflicts.join(", ")}`);
+        }
+        if (result.changedLocal) local.splice(0, local.length, ...result.items);
+    }
+
+    // ---- Snapshots ----
+
+    /** Live view of every collection, as stored in snapshots. */
+    snapshotData(): SnapshotData {
+        return { memories: this.memories, entities: this.entities, relations: this.relations, mistakes: this.mistakes };
+    }
+
+    /**
+     * Snapshot all collections now, keeping any trash entries about to be
+     * `purged` with it. Returns null (and logs) on failure.
+     */
+    createSnapshot(reason: string, purged: TrashEntry[] = []): SnapshotInfo | null {
+        try {
+            const info = takeSnapshot(this.storage.getBaseDir(), this.snapshotData(), reason, this.config.storage.maxSnapshots, purged);
+            this.lastSnapshotAt = Date.now();
+            this.log(`[code-buddy] 💾 Snapshot ${info.id} taken`);
+            return info;
+        } catch (error) {
+            this.log(`[code-buddy] Snapshot (${reason}) failed:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Snapshot before a destructive operation. With `throttle`, skip it when a
+     * snapshot was taken in the last 15 minutes (for frequent automatic merges).
+     */
+    snapshotBefore(operation: string, throttle = false): void {
+        if (throttle && Date.now() - this.lastSnapshotAt < THROTTLED_SNAPSHOT_MS) return;
+        this.createSnapshot(`pre-${operation}`);
+    }
+
+    // ---- Project scoping ----
+
+    /**
+     * Items visible from the current project (including legacy unscoped items).
+     * `global` overrides `config.storage.scope` to search every project.
+     */
+    inScope<T extends { project?: string }>(items: T[], global?: boolean): T[] {
+        const useGlobal = global ?? this.config.storage.scope === "global";
+        return useGlobal ? items : inProject(items, this.projectId);
     }
 
     // ---- Category-based queries ----
 
-    getSolutionMemories(): MemoryEntry[] {
-        return this.memories.filter((m) => getMemoryCategory(m) === "solution");
+    getSolutionMemories(global?: boolean): MemoryEntry[] {
+        return this.inScope(this.memories, global).filter((m) => getMemoryCategory(m) === "solution");
     }
-    getKnowledgeMemories(): MemoryEntry[] {
-        return this.memories.filter((m) => getMemoryCategory(m) === "knowledge");
+    getKnowledgeMemories(global?: boolean): MemoryEntry[] {
+        return this.inScope(this.memories, global).filter((m) => getMemoryCategory(m) === "knowledge");
     }
 
     // ---- Observer buffers (per-session) ----
@@ -103,6 +324,7 @@ export class PluginState {
             this.sessionBuffers.set(sid, buf);
         }
         buf.observations.push(obs);
+        this.journal.append(sid, obs, buf.delegationContext);
         if (buf.observations.length > 50) {
             buf.observations.splice(0, buf.observations.length - 50);
         }
@@ -131,12 +353,68 @@ export class PluginState {
             this.sessionBuffers.set(sessionId, buf);
         }
         buf.delegationContext = context;
+        this.journal.appendDelegation(sessionId, context);
+    }
+
+    /** Snapshots of the files a session edited (created on first use). */
+    sessionFileSnapshots(sessionId: string): Record<string, FileSnapshot> {
+        let buf = this.sessionBuffers.get(sessionId);
+        if (!buf) {
+            buf = { observations: [] };
+            this.sessionBuffers.set(sessionId, buf);
+        }
+        buf.files ??= {};
+        return buf.files;
+    }
+
+    /** Remove and return a session's file snapshots. */
+    takeFileSnapshots(sessionId: string): Record<string, FileSnapshot> {
+        const buf = this.sessionBuffers.get(sessionId);
+        const files = buf?.files ?? {};
+        if (buf) buf.files = undefined;
+        return files;
     }
 
     getDelegationContext(sessionId: string): string | undefined {
         return this.sessionBuffers.get(sessionId)?.delegationContext;
     }
 
+    setSessionModel(sessionId: string, model: string): void {
+        let buf = this.sessionBuffers.get(sessionId);
+        if (!buf) {
+            buf = { observations: [] };
+            this.sessionBuffers.set(sessionId, buf);
+        }
+        buf.model = model;
+    }
+
+    /** "provider/model" of the plugin's own LLM, when one has been resolved. */
+    llmModel(): string | undefined {
+        return this.resolvedProvider ? `${this.resolvedProvider.providerID}/${this.resolvedProvider.modelID}` : undefined;
+    }
+
+    // ---- Provenance ----
+
+    /**
+     * Provenance for a memory created now. `files` defaults to the files edited
+     * in the session so far, `model` to the session's chat model.
+     */
+    provenance(source: MemorySource, opts: { sessionId?: string; files?: string[]; model?: string } = {}): MemoryProvenance {
+        const sessionId = opts.sessionId && opts.sessionId !== "default" ? opts.sessionId : undefined;
+        const buf = sessionId ? this.sessionBuffers.get(sessionId) : undefined;
+        const files = opts.files ?? (buf?.observations || []).filter((o) => o.fileEdited).map((o) => o.fileEdited as string);
+        const git = readGitInfo(this.projectId);
+
+        const result: MemoryProvenance = { source };
+        if (sessionId) result.sessionId = sessionId;
+        if (files.length > 0) result.files = [...new Set(files)].slice(0, 20);
+        if (git.branch) result.gitBranch = git.branch;
+        if (git.commit) result.gitCommit = git.commit;
+        const model = opts.model ?? buf?.model;
+        if (model) result.model = model;
+        return result;
+    }
+
     // ---- Logging (respects verbose flag + persistent file) ----
 
     /** Format args into a single log string. Handles Error objects properly. */
@@ -1,16 +1,71 @@
 /**
- * JSON file-based persistent storage.
+ * JSON file-based persistent storage, plus the backend factory.
+ *
+ * Writes are crash-safe (temp file + rename) and serialised across OpenCode
+ * processes with an advisory `<file>.lock`. A file that fails to parse is
+ * copied to `quarantine/` and never overwritten by this process.
+ *
+ * Other processes' writes are picked up through `watch()` (fs.watch on the
+ * data directory, debounced per file).
+ *
+ * Collection files use a versioned envelope: `{ "schemaVersion": N, "items": [...] }`.
+ * Legacy files holding a bare array are schema version 1.
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { CollectionName, StorageBackend } from "./types";
+import { SqliteStorage, migrateJsonToSqlite } from "./sqlite-storage";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type LogFn = (...args: any[]) => void;
 
-export class LocalStorage {
+/** On-disk file for each collection in the JSON backend. */
+export const COLLECTION_FILES: Record<CollectionName, string> = {
+    memories: "memory.json",
+    entities: "entities.json",
+    relations: "relations.json",
+    mistakes: "mistakes.json",
+    revisions: "revisions.json",
+    trash: "trash.json",
+    vectors: "vectors.json",
+    injections: "injections.json",
+};
+
+/** Files written without indentation: vectors are large and only read by code. */
+const COMPACT_FILES = new Set([COLLECTION_FILES.vectors]);
+
+/** A lock without a readable holder pid that is older than this is assumed to be left by a crash. */
+const LOCK_STALE_MS = 10_000;
+/** Give up waiting for another process's lock after this long. */
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 25;
+/** Coalesce bursts of fs.watch events (tmp write + rename) into one notification. */
+const WATCH_DEBOUNCE_MS = 150;
+
+/** Block the current thread for `ms` (writes are synchronous, so the lock wait is too). */
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/** Does a process with this pid still exist? (EPERM: it exists but belongs to another user.) */
+export function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+export class LocalStorage implements StorageBackend {
+    readonly kind = "json" as const;
     private baseDir: string;
     private log: LogFn;
+    /** Files that failed to parse — writing them would destroy the only copy of the data. */
+    private quarantined = new Set<string>();
+    /** Schema version each collection file was last read/written with. */
+    private versions = new Map<CollectionName, number>();
 
     constructor(dataDir: string, log: LogFn = console.log) {
         this.baseDir = dataDir;
@@ -28,30 +83,285 @@ export class LocalStorage {
         }
     }
 
+    load<T extends { id: string }>(collection: CollectionName): T[] {
+        const raw = this.read<unknown>(COLLECTION_FILES[collection], null);
+        if (Array.isArray(raw)) {
+            this.versions.set(collection, 1);
+            return raw as T[];
+        }
+        if (raw && typeof raw === "object" && Array.isArray((raw as { items?: unknown }).items)) {
+            const envelope = raw as { schemaVersion?: number; items: T[] };
+            this.versions.set(collection, envelope.schemaVersion ?? 1);
+            return envelope.items;
+        }
+        return [];
+    }
+
+    save<T extends { id: string }>(collection: CollectionName, items: T[]): boolean {
+        const schemaVersion = this.versions.get(collection) ?? 1;
+        return this.write(COLLECTION_FILES[collection], { schemaVersion, items });
+    }
+
+    update<T extends { id: string }>(collection: CollectionName, merge: (current: T[]) => T[]): T[] | null {
+        const filename = COLLECTION_FILES[collection];
+        if (this.quarantined.has(filename)) {
+            this.log(`[code-buddy] ❌ Refusing to overwrite quarantined ${filename}. Repair or remove it, then restart OpenCode.`);
+            return null;
+        }
+        const filePath = path.join(this.baseDir, filename);
+        try {
+            this.ensureDir();
+        } catch (error) {
+            this.log(`[code-buddy] Error writing ${filename}:`, error);
+            return null;
+        }
+        if (!this.acquireLock(filePath)) {
+            this.log(`[code-buddy] ❌ Timed out waiting for lock on ${filename} — write skipped`);
+            return null;
+        }
+        try {
+            const current = this.load<T>(collection);
+            // A corrupt file was just quarantined by load() — don't replace it
+            if (this.quarantined.has(filename)) return null;
+            const items = merge(current);
+            const schemaVersion = this.versions.get(collection) ?? 1;
+            return this.writeFile(filePath, { schemaVersion, items }) ? items : null;
+        } finally {
+            this.releaseLock(filePath);
+        }
+    }
+
+    watch(onChange: (collection: CollectionName) => void): () => void {
+        const byFile = new Map(Object.entries(COLLECTION_FILES).map(([c, f]) => [f, c as CollectionName]));
+        const timers = new Map<CollectionName, ReturnType<typeof setTimeout>>();
+        let watcher: fs.FSWatcher;
+        try {
+            watcher = fs.watch(this.baseDir, (_event, filename) => {
+                const collection = filename ? byFile.get(filename.toString()) : undefined;
+                if (!collection) return;
+                clearTimeout(timers.get(collection));
+                const timer = setTimeout(() => { timers.delete(collection); onChange(collection); }, WATCH_DEBOUNCE_MS);
+                timer.unref?.();
+                timers.set(collection, timer);
+            });
+            watcher.unref();
+            watcher.on("error", (error) => this.log("[code-buddy] Data directory watcher error:", error));
+        } catch (error) {
+            this.log("[code-buddy] ⚠️ Cannot watch data directory — changes from other windows will only be merged on save:", error);
+            return () => {};
+        }
+        return () => {
+            for (const timer of timers.values()) clearTimeout(timer);
+            watcher.close();
+        };
+    }
+
+    getSchemaVersion(collection: CollectionName): number {
+        if (!fs.existsSync(path.join(this.baseDir, COLLECTION_FILES[collection]))) return 0;
+        this.load(collection);
+        return this.versions.get(collection) ?? 0;
+    }
+
+    saveMigrated<T extends { id: string }>(collection: CollectionName, items: T[], schemaVersion: number): boolean {
+        const previous = this.versions.get(collection);
+        this.versions.set(collection, schemaVersion);
+        if (this.save(collection, items)) return true;
+        if (previous === undefined) this.versions.delete(collection);
+        else this.versions.set(collection, previous);
+        return false;
+    }
+
+    /** Filenames quarantined during this process (writes to them are refused). */
+    getQuarantined(): string[] {
+        return [...this.quarantined];
+    }
+
     read<T>(filename: string, defaultValue: T): T {
+        if (this.quarantined.has(filename)) return defaultValue;
         const filePath = path.join(this.baseDir, filename);
+        let raw: string;
         try {
-            if (fs.existsSync(filePath)) {
-                return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
-            }
+            if (!fs.existsSync(filePath)) return defaultValue;
+            raw = fs.readFileSync(filePath, "utf-8");
         } catch (error) {
             this.log(`[code-buddy] Error reading ${filename}:`, error);
+            return defaultValue;
+        }
+        try {
+            return JSON.parse(raw) as T;
+        } catch (error) {
+            this.quarantine(filename, error);
+            return defaultValue;
         }
-        return defaultValue;
     }
 
     write<T>(filename: string, data: T): boolean {
+        if (this.quarantined.has(filename)) {
+            this.log(`[code-buddy] ❌ Refusing to overwrite quarantined ${filename}. Repair or remove it, then restart OpenCode.`);
+            return false;
+        }
+
+        const filePath = path.join(this.baseDir, filename);
         try {
             this.ensureDir();
-            fs.writeFileSync(
-                path.join(this.baseDir, filename),
-                JSON.stringify(data, null, 2),
-                "utf-8",
-            );
+        } catch (error) {
+            this.log(`[code-buddy] Error writing ${filename}:`, error);
+            return false;
+        }
+        if (!this.acquireLock(filePath)) {
+            this.log(`[code-buddy] ❌ Timed out waiting for lock on ${filename} — write skipped`);
+            return false;
+        }
+        try {
+            return this.writeFile(filePath, data);
+        } finally {
+            this.releaseLock(filePath);
+        }
+    }
+
+    /** Crash-safe write (temp file + fsync + rename). Caller must hold the lock. */
+    private writeFile<T>(filePath: string, data: T): boolean {
+        const filename = path.basename(filePath);
+        const tmpPath = `${filePath}.${process.pid}.${Math.random().toString(36).substring(2, 8)}.tmp`;
+        try {
+            const fd = fs.openSync(tmpPath, "w");
+            try {
+                fs.writeFileSync(fd, JSON.stringify(data, null, COMPACT_FILES.has(filename) ? undefined : 2), "utf-8");
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+            fs.renameSync(tmpPath, filePath);
             return true;
         } catch (error) {
             this.log(`[code-buddy] Error writing ${filename}:`, error);
+            try { fs.unlinkSync(tmpPath); } catch { /* never created */ }
             return false;
         }
     }
+
+    // ---- Corruption handling ----
+
+    /** Copy an unparseable file to `quarantine/` and block further writes to it. */
+    private quarantine(filename: string, error: unknown): void {
+        this.quarantined.add(filename);
+        const quarantineDir = path.join(this.baseDir, "quarantine");
+        const target = path.join(quarantineDir, `${filename}.${new Date().toISOString().replace(/[:.]/g, "-")}.corrupt`);
+        try {
+            fs.mkdirSync(quarantineDir, { recursive: true });
+            fs.copyFileSync(path.join(this.baseDir, filename), target);
+            this.log(`[code-buddy] ❌ ${filename} is corrupt (${error instanceof Error ? error.message : String(error)}). Copied to ${target}; it will not be overwritten.`);
+        } catch (copyError) {
+            this.log(`[code-buddy] ❌ ${filename} is corrupt and could not be quarantined:`, copyError);
+        }
+    }
+
+    // ---- Advisory cross-process lock ----
+
+    private acquireLock(filePath: string): boolean {
+        const lockPath = `${filePath}.lock`;
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        while (true) {
+            try {
+                const fd = fs.openSync(lockPath, "wx");
+                fs.writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }));
+                fs.closeSync(fd);
+                return true;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+                    this.log(`[code-buddy] Error creating lock ${lockPath}:`, error);
+                    return false;
+                }
+            }
+            const lock = this.readLock(lockPath);
+            if (lock && this.isStaleLock(lock)) {
+                this.breakStaleLock(lockPath, lock);
+                continue;
+            }
+            if (Date.now() >= deadline) return false;
+            sleepSync(LOCK_RETRY_MS);
+        }
+    }
+
+    /** The current lock file: its inode (to recognise it later), holder pid if readable, and age. */
+    private readLock(lockPath: string): { ino: number; pid?: number; ageMs: number } | null {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(lockPath);
+        } catch {
+            return null; // released meanwhile
+        }
+        let pid: number | undefined;
+        try {
+            const parsed = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { pid?: unknown };
+            if (typeof parsed.pid === "number") pid = parsed.pid;
+        } catch {
+            // Mid-write or garbled — only its age can tell
+        }
+        return { ino: stat.ino, pid, ageMs: Date.now() - stat.mtimeMs };
+    }
+
+    /** A lock is stale when its holder is gone; a live holder keeps it however long it takes. */
+    private isStaleLock(lock: { pid?: number; ageMs: number }): boolean {
+        if (lock.pid === undefined) return lock.ageMs > LOCK_STALE_MS;
+        return lock.pid !== process.pid && !isProcessAlive(lock.pid);
+    }
+
+    /**
+     * Break a stale lock without racing another process doing the same: move
+     * it aside under a unique name, then check that what was moved is still
+     * the lock judged stale. If a fresh lock took its place in between, it is
+     * put back (link fails rather than overwrite a newer one).
+     */
+    private breakStaleLock(lockPath: string, stale: { ino: number }): void {
+        const aside = `${lockPath}.stale-${process.pid}-${Date.now()}`;
+        try {
+            fs.renameSync(lockPath, aside);
+        } catch {
+            return; // another process broke it first
+        }
+        try {
+            if (fs.statSync(aside).ino !== stale.ino) fs.linkSync(aside, lockPath);
+        } catch (error) {
+            this.log(`[code-buddy] ⚠️ Could not put back lock ${lockPath}:`, error);
+        }
+        try { fs.unlinkSync(aside); } catch { /* already gone */ }
+    }
+
+    private releaseLock(filePath: string): void {
+        const lockPath = `${filePath}.lock`;
+        try {
+            const { pid } = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { pid?: number };
+            if (pid === process.pid) fs.unlinkSync(lockPath);
+        } catch {
+            // Already gone
+        }
+    }
+}
+
+/**
+ * Open the configured storage backend. The SQLite backend imports any
+ * existing JSON data on first use; if node:sqlite is unavailable it falls
+ * back to JSON files.
+ */
+export function openStorage(backend: "json" | "sqlite", dataDir: string, log: LogFn = console.log): StorageBackend {
+    const json = new LocalStorage(dataDir, log);
+    if (backend !== "sqlite") return json;
+
+    let sqlite: SqliteStorage;
+    try {
+        sqlite = new SqliteStorage(dataDir, log);
+    } catch (error) {
+        log("[code-buddy] ⚠️ SQLite backend unavailable (needs Node 22.5+ for node:sqlite), falling back to JSON files:", error);
+        return json;
+    }
+    try {
+        migrateJsonToSqlite(json, sqlite, log);
+        return sqlite;
+    } catch (error) {
+        // Release the database (and its WAL lock) before falling back
+        sqlite.close();
+        log("[code-buddy] ⚠️ Importing JSON data into SQLite failed, falling back to JSON files:", error);
+        return json;
+    }
 }
@@ -0,0 +1,82 @@
+/**
+ * Three-way merge of a collection against what is on disk.
+ *
+ * Several OpenCode windows can share one data directory. Each PluginState
+ * remembers the last version of every record it read from or wrote to disk
+ * (the "base"). When saving or reloading, local and on-disk records are
+ * compared with that base by id, so a process only ever applies the changes
+ * it actually made and never drops records it has not seen.
+ */
+
+type AnyRecord = { id: string; [key: string]: unknown };
+
+/** Last-synced JSON of each record, keyed by id. */
+export type Baseline = Map<string, string>;
+
+export interface MergeResult<T> {
+    items: T[];
+    /** Ids edited on both sides since the base; resolved by newest timestamp. */
+    conflicts: string[];
+    /** True when `items` differs from the on-disk records. */
+    changedRemote: boolean;
+    /** True when `items` differs from the local records. */
+    changedLocal: boolean;
+}
+
+export function toBaseline<T extends { id: string }>(items: T[]): Baseline {
+    return new Map(items.map((item) => [item.id, JSON.stringify(item)]));
+}
+
+/** Best "last modified" time of a record — edits bump `timestamp`, graph records only carry `createdAt`. */
+function recordTime(item: AnyRecord): number {
+    const raw = item.updatedAt ?? item.timestamp ?? item.createdAt;
+    const time = typeof raw === "string" || typeof raw === "number" ? new Date(raw).getTime() : NaN;
+    return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Merge `local` and `remote` against `base`:
+ * - changed on one side only → that side wins (including deletions);
+ * - changed on both sides → the newer record wins (local on ties);
+ * - deleted on one side, edited on the other → the edit is kept.
+ * Order follows `remote`, with local-only records appended.
+ */
+export function threeWayMerge<T extends { id: string }>(base: Baseline, local: T[], remote: T[]): MergeResult<T> {
+    const localById = new Map(local.map((item) => [item.id, item]));
+    const remoteById = new Map(remote.map((item) => [item.id, item]));
+    const localJson = new Map(local.map((item) => [item.id, JSON.stringify(item)]));
+    const remoteJson = new Map(remote.map((item) => [item.id, JSON.stringify(item)]));
+
+    const order = [...remoteById.keys()];
+    for (const id of localById.keys()) if (!remoteById.has(id)) order.push(id);
+
+    const items: T[] = [];
+    const conflicts: string[] = [];
+    for (const id of order) {
+        const was = base.get(id);
+        const mine = localJson.get(id);
+        const theirs = remoteJson.get(id);
+        const localChanged = mine !== was;
+        const remoteChanged = theirs !== was;
+
+        let pick: "local" | "remote";
+        if (!localChanged) pick = "remote";
+        else if (!remoteChanged || mine === theirs) pick = "local";
+        else if (mine === undefined) pick = "remote";
+        else if (theirs === undefined) pick = "local";
+        else {
+            conflicts.push(id);
+            const mineTime = recordTime(localById.get(id) as unknown as AnyRecord);
+            const theirTime = recordTime(remoteById.get(id) as unknown as AnyRecord);
+            pick = theirTime > mineTime ? "remote" : "local";
+        }
+
+        const chosen = pick === "local" ? localById.get(id) : remoteById.get(id);
+        if (chosen) items.push(chosen);
+    }
+
+    const differs = (json: Map<string, string>) =>
+        items.length !== json.size || items.some((item) => json.get(item.id) !== JSON.stringify(item));
+
+    return { items, conflicts, changedRemote: differs(remoteJson), changedLocal: differs(localJson) };
+}
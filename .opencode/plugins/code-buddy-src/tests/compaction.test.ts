@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { sessionActivity, summarizeSession, buildCompactionContext } from "../compaction";
+import { createMockState, createMemoryEntry, createObservation } from "./mock-state";
+import type { MistakeRecord } from "../types";
+
+const observations = [
+    createObservation({ timestamp: "2026-01-01T10:00:00Z", tool: "edit", fileEdited: "/repo/src/billing/invoice.ts", isWriteAction: true }),
+    createObservation({ timestamp: "2026-01-01T10:05:00Z", tool: "bash", args: { command: "npm test" }, hasError: true, result: "\nFAIL invoice rounding test\n" }),
+    createObservation({ timestamp: "2026-01-01T10:12:00Z", tool: "bash", args: { command: "npm test" } }),
+];
+
+const invoice = createMemoryEntry({ id: "invoice", title: "Invoice rounding", content: "Round totals per line in invoice.ts, not on the sum.", timestamp: "2026-01-01T00:00:00Z" });
+const newer = [1, 2, 3, 4, 5].map((i) => createMemoryEntry({ id: `n${i}`, title: `Unrelated note ${i}`, content: "Styling conventions", timestamp: `2026-02-0${i}T00:00:00Z` }));
+
+describe("summarizeSession", () => {
+    it("reports the goal, edited files, commands and the last error", () => {
+        const lines = summarizeSession(sessionActivity(observations, "Fix invoice rounding"));
+        expect(lines).toEqual([
+            "- **Goal**: Fix invoice rounding",
+            "- **Activity**: 3 tool call(s) over 12 min, 1 file(s) edited, 1 error(s)",
+            "- **Files edited**: invoice.ts",
+            "- **Recent commands**: `npm test`",
+            "- **Last error**: bash: FAIL invoice rounding test (a later attempt succeeded)",
+        ]);
+    });
+
+    it("is empty for a session with no activity", () => {
+        expect(summarizeSession(sessionActivity([]))).toEqual([]);
+    });
+});
+
+describe("buildCompactionContext", () => {
+    it("prefers memories relevant to the session over newer ones", () => {
+        const s = createMockState({ memories: [invoice, ...newer] });
+        const { text, counts } = buildCompactionContext(s, observations);
+        expect(text).toContain("### State of This Session");
+        expect(counts.memories).toBe(5);
+        expect(text.indexOf("Invoice rounding")).toBeLessThan(text.indexOf("Unrelated note"));
+        expect(text).not.toContain("Unrelated note 1\n");
+    });
+
+    it("falls back to the newest memories without session activity", () => {
+        const s = createMockState({ memories: [invoice, ...newer] });
+        const { text } = buildCompactionContext(s, []);
+        expect(text).not.toContain("State of This Session");
+        expect(text).not.toContain("Invoice rounding");
+    });
+
+    it("stays within the token budget", () => {
+        const s = createMockState({ memories: [invoice, ...newer] });
+        s.mistakes = [{
+            id: "mis_1", timestamp: "2026-01-01T00:00:00Z", action: "Rounded the invoice sum", errorType: "assumption-error",
+            userCorrection: "", correctMethod: "Round each line", impact: "", preventionMethod: "",
+        } as MistakeRecord];
+        s.config.hooks.compactionTokenBudget = 150;
+
+        const { text, counts } = buildCompactionContext(s, observations);
+        expect(text.length / 4).toBeLessThanOrEqual(150);
+        expect(counts.mistakes).toBe(1);
+        expect(counts.memories).toBeLessThan(5);
+    });
+});
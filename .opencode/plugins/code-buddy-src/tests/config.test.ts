@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { loadConfig, resolveDataDir, defaultConfig, LEGACY_DATA_DIR } from "../config";
+
+describe("loadConfig", () => {
+    let dir: string;
+    let configPath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-config-"));
+        configPath = path.join(dir, "config.json");
+    });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("migrates the legacy dataDir default to the global data dir", () => {
+        fs.writeFileSync(configPath, JSON.stringify({ storage: { dataDir: LEGACY_DATA_DIR } }));
+        const log = vi.fn();
+
+        const config = loadConfig(configPath, log);
+        expect(config.storage.dataDir).toBe(defaultConfig.storage.dataDir);
+        expect(resolveDataDir(config.storage.dataDir, "/work/shop", "/fallback")).toBe(path.join(os.homedir(), ".config/opencode/code-buddy/data"));
+        expect(log.mock.calls.some(([msg]) => String(msg).includes("legacy"))).toBe(true);
+        // The file is rewritten, so the warning is logged once
+        expect(JSON.parse(fs.readFileSync(configPath, "utf-8")).storage.dataDir).toBe(defaultConfig.storage.dataDir);
+    });
+
+    it("keeps a custom relative dataDir", () => {
+        fs.writeFileSync(configPath, JSON.stringify({ storage: { dataDir: ".buddy" } }));
+        const config = loadConfig(configPath, vi.fn());
+        expect(resolveDataDir(config.storage.dataDir, "/work/shop", "/fallback")).toBe(path.resolve("/work/shop", ".buddy"));
+    });
+});
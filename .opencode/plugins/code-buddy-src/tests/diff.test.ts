@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, unifiedDiff } from "../diff";
+
+describe("diffLines", () => {
+    it("produces a minimal edit script", () => {
+        const ops = diffLines("a\nb\nc", "a\nx\nc");
+        expect(ops).toEqual([
+            { kind: "equal", line: "a" },
+            { kind: "remove", line: "b" },
+            { kind: "add", line: "x" },
+            { kind: "equal", line: "c" },
+        ]);
+    });
+});
+
+describe("unifiedDiff", () => {
+    it("returns an empty string for identical input", () => {
+        expect(unifiedDiff("same\ntext", "same\ntext")).toBe("");
+    });
+
+    it("emits hunks with context and line numbers", () => {
+        const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+        const after = ["1", "2", "3", "4", "five", "6", "7", "8", "9", "10", "11"].join("\n");
+
+        expect(unifiedDiff(before, after, { fromLabel: "a", toLabel: "b", context: 1 })).toBe([
+            "--- a",
+            "+++ b",
+            "@@ -4,3 +4,3 @@",
+            " 4",
+            "-5",
+            "+five",
+            " 6",
+            "@@ -10,1 +10,2 @@",
+            " 10",
+            "+11",
+        ].join("\n"));
+    });
+
+    it("handles additions to empty text", () => {
+        expect(unifiedDiff("", "new")).toBe("@@ -0,0 +1,1 @@\n+new");
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+    localEmbed, cosine, ensureVectors, vectorSimilarities, hybridScore, hybridSearch, LOCAL_MODEL,
+} from "../embeddings";
+import { createMockState, createMemoryEntry } from "./mock-state";
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+    vi.stubGlobal("fetch", mockFetch);
+    mockFetch.mockReset();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const login = createMemoryEntry({ id: "login", title: "Fix login redirect loop", content: "The session cookie was not set on the callback route.", tags: ["auth"] });
+const postgres = createMemoryEntry({ id: "pg", title: "Use Postgres for persistence", content: "Chosen over SQLite for concurrent writers.", tags: ["database"] });
+
+describe("localEmbed", () => {
+    it("scores inflected and related wording above unrelated text", () => {
+        const query = localEmbed("redirection");
+        expect(cosine(query, localEmbed("Fix login redirect loop"))).toBeGreaterThan(0.25);
+        expect(cosine(query, localEmbed("Use Postgres for persistence"))).toBeLessThan(0.1);
+    });
+});
+
+describe("ensureVectors", () => {
+    it("embeds once, re-embeds changed memories and drops deleted ones", async () => {
+        const memories = [{ ...login }, { ...postgres }];
+        const s = createMockState({ memories });
+
+        await ensureVectors(s, memories);
+        expect(s.vectors.map((v) => [v.id, v.model])).toEqual([["login", LOCAL_MODEL], ["pg", LOCAL_MODEL]]);
+        expect(s.saveVectors).toHaveBeenCalledTimes(1);
+
+        await ensureVectors(s, memories);
+        expect(s.saveVectors).toHaveBeenCalledTimes(1);
+
+        const oldHash = s.vectors.find((v) => v.id === "login")!.hash;
+        memories[0].content = "Rewritten";
+        memories.pop();
+        await ensureVectors(s, memories);
+        expect(s.vectors.map((v) => v.id)).toEqual(["login"]);
+        expect(s.vectors[0].hash).not.toBe(oldHash);
+    });
+
+    it("returns nothing when embeddings are off", async () => {
+        const s = createMockState({ memories: [login] });
+        s.config.embeddings.mode = "off";
+        expect((await ensureVectors(s, [login])).size).toBe(0);
+        expect(s.vectors).toHaveLength(0);
+    });
+});
+
+describe("remote embeddings", () => {
+    const provider = { providerID: "p", modelID: "m", baseURL: "http://localhost:1234/v1", apiKey: "k", name: "p" };
+
+    it("calls the provider's /embeddings endpoint", async () => {
+        const s = createMockState({ memories: [login, postgres], resolvedProvider: provider });
+        s.config.embeddings.mode = "remote";
+        mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+            const { input } = JSON.parse(init.body) as { input: string[] };
+            const embedding = (text: string) => (/login/i.test(text) ? [1, 0] : [0, 1]);
+            return { ok: true, json: async () => ({ data: input.map((text, index) => ({ index, embedding: embedding(text) })) }) };
+        });
+
+        const scores = await vectorSimilarities(s, "login", [login, postgres]);
+
+        expect(mockFetch.mock.calls[0][0]).toBe("http://localhost:1234/v1/embeddings");
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe("text-embedding-3-small");
+        expect(scores.get("login")).toBeCloseTo(1);
+        expect(scores.get("pg")).toBeCloseTo(0);
+        expect(s.vectors[0].model).toBe("remote:text-embedding-3-small");
+    });
+
+    it("falls back to lexical-only and backs off after a failure", async () => {
+        const s = createMockState({ memories: [login], resolvedProvider: provider });
+        s.config.embeddings.mode = "remote";
+        mockFetch.mockResolvedValue({ ok: false, status: 500, statusText: "Server Error" });
+
+        expect((await vectorSimilarities(s, "login", [login])).size).toBe(0);
+        expect((await vectorSimilarities(s, "login", [login])).size).toBe(0);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("hybrid ranking", () => {
+    it("never lowers a lexical score and ignores weak vectors", () => {
+        const s = createMockState();
+        expect(hybridScore(s, 0.9, 0.3)).toBe(0.9);
+        expect(hybridScore(s, 0.2, 0.8)).toBeCloseTo(0.5);
+        expect(hybridScore(s, 0.2, 0.15)).toBe(0.2);
+        expect(hybridScore(s, 0.2, undefined)).toBe(0.2);
+    });
+
+    it("finds memories that share no exact word with the query", async () => {
+        const s = createMockState({ memories: [login, postgres] });
+        expect(s.search("memories", [login, postgres], "redirection")).toEqual([]);
+        expect((await hybridSearch(s, [login, postgres], "redirection")).map((m) => m.id)).toEqual(["login"]);
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { extractObservation, isWriteTool, parseTestResults, registerExtractor, unregisterExtractor } from "../extractors";
+import type { ToolCall } from "../extractors";
+
+function call(tool: string, args: Record<string, unknown> = {}, extra: Partial<ToolCall> = {}): ToolCall {
+    return { tool, args, metadata: {}, output: "", ...extra };
+}
+
+describe("isWriteTool", () => {
+    it("matches whole words, not substrings", () => {
+        expect(isWriteTool("runbook_reader")).toBe(false);
+        expect(isWriteTool("github_create_issue")).toBe(true);
+        expect(isWriteTool("writeFile")).toBe(true);
+        expect(isWriteTool("overwrite_protection_status")).toBe(false);
+    });
+});
+
+describe("built-in extractors", () => {
+    it("read: a touched file, not a write", () => {
+        expect(extractObservation(call("read", { filePath: "/repo/a.ts" }))).toEqual({ isWriteAction: false, files: ["/repo/a.ts"] });
+    });
+
+    it("edit: the edited file and diff hunks", () => {
+        const fields = extractObservation(call("edit", { filePath: "a.ts", oldString: "const a = 1;", newString: "const a = 2;" }));
+        expect(fields).toMatchObject({ isWriteAction: true, fileEdited: "a.ts" });
+        expect(fields.diff).toContain("-const a = 1;\n+const a = 2;");
+    });
+
+    it("bash: command, exit code and test results", () => {
+        const fields = extractObservation(call("bash", { command: "npm test" }, {
+            metadata: { exit: 1 },
+            output: " Test Files  1 failed | 3 passed (4)\n      Tests  2 failed | 40 passed | 1 skipped (43)\n",
+        }));
+        expect(fields).toEqual({ isWriteAction: true, command: "npm test", exitCode: 1, tests: { passed: 40, failed: 2, skipped: 1 } });
+        expect(extractObservation(call("bash", { command: "git status" })).isWriteAction).toBe(false);
+    });
+
+    it("grep, glob, webfetch and todowrite never write", () => {
+        expect(extractObservation(call("grep", { pattern: "TODO", path: "src" }))).toEqual({ isWriteAction: false, query: "TODO", files: ["src"] });
+        expect(extractObservation(call("webfetch", { url: "https://example.com" }))).toEqual({ isWriteAction: false, query: "https://example.com" });
+        expect(extractObservation(call("todowrite", { todos: [] }))).toEqual({ isWriteAction: false });
+    });
+
+    it("generic (MCP) tools: path from the title, write from the tool name", () => {
+        expect(extractObservation(call("runbook_reader", {}, { title: "Read docs/runbook.md" })))
+            .toEqual({ isWriteAction: false, files: ["docs/runbook.md"] });
+        expect(extractObservation(call("fs_write_file", { path: "out.txt" })))
+            .toEqual({ isWriteAction: true, fileEdited: "out.txt", files: ["out.txt"] });
+    });
+});
+
+describe("custom extractors", () => {
+    afterEach(() => unregisterExtractor("deploy"));
+
+    it("applies config specs by exact name or prefix pattern", () => {
+        const specs = {
+            "jira_*": { write: false },
+            jira_attach: { pathArgs: ["attachment"], write: true },
+            my_shell: { base: "bash", commandArg: "script" },
+        };
+        expect(extractObservation(call("jira_update_issue"), specs).isWriteAction).toBe(false);
+        expect(extractObservation(call("jira_attach", { attachment: "log.txt" }), specs))
+            .toEqual({ isWriteAction: true, fileEdited: "log.txt", files: ["log.txt"] });
+        expect(extractObservation(call("my_shell", { script: "pytest" }, { output: "=== 3 passed in 0.1s ===" }), specs))
+            .toMatchObject({ command: "pytest", tests: { passed: 3, failed: 0, skipped: 0 } });
+    });
+
+    it("uses registered extractors", () => {
+        registerExtractor("deploy", () => ({ isWriteAction: true, command: "deploy prod" }));
+        expect(extractObservation(call("deploy"))).toEqual({ isWriteAction: true, command: "deploy prod" });
+    });
+});
+
+describe("parseTestResults", () => {
+    it("reads jest, mocha and cargo summaries", () => {
+        expect(parseTestResults("Tests:       1 failed, 3 passed, 4 total")).toEqual({ passed: 3, failed: 1, skipped: 0 });
+        expect(parseTestResults("  5 passing (20ms)\n  2 pending")).toEqual({ passed: 5, failed: 0, skipped: 2 });
+        expect(parseTestResults("test result: ok. 3 passed; 0 failed; 1 ignored")).toEqual({ passed: 3, failed: 0, skipped: 1 });
+        expect(parseTestResults("no tests here")).toBeUndefined();
+    });
+});
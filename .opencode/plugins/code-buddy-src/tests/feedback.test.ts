@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+    recordInjections, giveFeedback, noteFileEdited, noteRecalled, guideStats, usefulnessPrior, leastUseful, rankForCompaction,
+} from "../feedback";
+import { rankGuides } from "../guides";
+import { createMockState, createMemoryEntry } from "./mock-state";
+
+const cache = createMemoryEntry({ id: "cache", title: "Cache invalidation", content: "Clear the redis cache in src/cache/store.ts after writes.", timestamp: "2026-01-01T00:00:00Z" });
+const deploy = createMemoryEntry({ id: "deploy", title: "Cache deploy notes", content: "The cache deploy runs after migrations.", timestamp: "2026-01-02T00:00:00Z" });
+
+describe("implicit signals", () => {
+    it("marks a guide used when the session edits a file it mentions", () => {
+        const s = createMockState({ memories: [cache, deploy] });
+        recordInjections(s, "ses1", [{ memory: cache, score: 0.5 }, { memory: deploy, score: 0.4 }]);
+
+        expect(noteFileEdited(s, "ses2", "/repo/src/cache/store.ts")).toBe(0);
+        expect(noteFileEdited(s, "ses1", "/repo/src/cache/store.ts")).toBe(1);
+        expect(noteFileEdited(s, "ses1", "/repo/src/cache/store.ts")).toBe(0);
+        expect(s.injections.find((i) => i.memoryId === "cache")!.signals).toEqual(["file-edited"]);
+    });
+
+    it("marks a guide used when the session recalls it", () => {
+        const s = createMockState({ memories: [cache] });
+        recordInjections(s, "ses1", [{ memory: cache, score: 0.5 }]);
+        expect(noteRecalled(s, "ses1", ["cache", "other"])).toBe(1);
+        expect(guideStats(s).get("cache")).toMatchObject({ shown: 1, implicit: 1, ignored: 0 });
+    });
+
+    it("counts an injection without signals as ignored only after the grace window", () => {
+        const s = createMockState({ memories: [cache] });
+        const [injection] = recordInjections(s, "ses1", [{ memory: cache, score: 0.5 }]);
+        const injectedAt = Date.parse(injection.injectedAt);
+
+        expect(guideStats(s, injectedAt + 60_000).get("cache")).toMatchObject({ shown: 1, ignored: 0, usefulness: 0.5 });
+        const later = guideStats(s, injectedAt + 3 * 60 * 60 * 1000).get("cache")!;
+        expect(later.ignored).toBe(1);
+        expect(later.usefulness).toBeLessThan(0.5);
+    });
+});
+
+describe("explicit feedback", () => {
+    it("replaces an earlier verdict on the same injection", () => {
+        const s = createMockState({ memories: [cache] });
+        recordInjections(s, "ses1", [{ memory: cache, score: 0.5 }]);
+        giveFeedback(s, cache, true, "ses1");
+        giveFeedback(s, cache, false, "ses1");
+        expect(s.injections).toHaveLength(1);
+        expect(s.injections[0].signals).toEqual(["unhelpful"]);
+    });
+
+    it("records feedback on a memory that was never injected without counting it as shown", () => {
+        const s = createMockState({ memories: [cache] });
+        giveFeedback(s, cache, true, "ses1");
+        expect(guideStats(s).get("cache")).toMatchObject({ shown: 0, helpful: 1 });
+    });
+});
+
+describe("usefulness prior", () => {
+    it("is neutral without evidence and follows the feedback", () => {
+        const s = createMockState({ memories: [cache, deploy] });
+        expect(usefulnessPrior(undefined)).toBe(1);
+
+        recordInjections(s, "ses1", [{ memory: cache, score: 0.5 }, { memory: deploy, score: 0.5 }]);
+        giveFeedback(s, cache, true, "ses1");
+        giveFeedback(s, deploy, false, "ses1");
+        const stats = guideStats(s);
+        expect(usefulnessPrior(stats.get("cache"))).toBeGreaterThan(1);
+        expect(usefulnessPrior(stats.get("deploy"))).toBeLessThan(1);
+    });
+
+    it("reorders guides and compaction memories", () => {
+        const s = createMockState({ memories: [cache, deploy] });
+        const before = rankGuides(s, "cache", [cache, deploy], new Map());
+        const loser = before[0].memory;
+        const winner = before[1].memory;
+        for (let i = 0; i < 3; i++) {
+            recordInjections(s, `ses${i}`, [{ memory: loser, score: 0.5 }, { memory: winner, score: 0.5 }]);
+            giveFeedback(s, loser, false, `ses${i}`);
+            giveFeedback(s, winner, true, `ses${i}`);
+        }
+
+        expect(rankGuides(s, "cache", [cache, deploy], new Map()).map((g) => g.memory.id)).toEqual([winner.id, loser.id]);
+        expect(rankForCompaction(s, [cache, deploy]).map((m) => m.id)[0]).toBe(winner.id);
+    });
+});
+
+describe("leastUseful", () => {
+    it("lists often-shown, rarely useful memories as cleanup candidates", () => {
+        const s = createMockState({ memories: [cache, deploy] });
+        for (let i = 0; i < 3; i++) recordInjections(s, `ses${i}`, [{ memory: cache, score: 0.5 }, { memory: deploy, score: 0.5 }]);
+        noteRecalled(s, "ses0", ["deploy"]);
+        noteRecalled(s, "ses1", ["deploy"]);
+        for (const injection of s.injections) injection.injectedAt = "2026-01-03T00:00:00Z";
+
+        expect(leastUseful(s, [cache, deploy]).map((r) => r.memory.id)).toEqual(["cache"]);
+        expect(leastUseful(s, [cache, deploy], 4)).toEqual([]);
+    });
+});
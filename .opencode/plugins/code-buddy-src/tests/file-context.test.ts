@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { fileNames, referencesFile, findFileContext, renderFileContext } from "../file-context";
+import { createMockState, createMemoryEntry } from "./mock-state";
+import type { Entity, MistakeRecord } from "../types";
+
+const FILE = "/repo/src/auth/session-store.ts";
+
+function entity(overrides: Partial<Entity>): Entity {
+    return { id: "ent_1", name: "SessionStore", type: "component", observations: [], tags: [], createdAt: "2026-01-01T00:00:00Z", ...overrides };
+}
+
+const mistake: MistakeRecord = {
+    id: "mis_1", timestamp: "2026-01-01T00:00:00Z", action: "Changed session-store.ts without updating the cookie TTL",
+    errorType: "dependency-miss", userCorrection: "", correctMethod: "Keep the TTL in sync with SESSION_MAX_AGE",
+    impact: "Users logged out early", preventionMethod: "",
+};
+
+describe("fileNames", () => {
+    it("drops generic and test-suffixed stems", () => {
+        expect(fileNames("src/auth/session-store.test.ts").stem).toBe("session-store");
+        expect(fileNames("src/index.ts").stem).toBeUndefined();
+        expect(fileNames("C:\\repo\\api.ts")).toEqual({ path: "C:/repo/api.ts", base: "api.ts", stem: undefined });
+    });
+});
+
+describe("referencesFile", () => {
+    it("matches file names and module stems as whole words, and recorded paths on segments", () => {
+        expect(referencesFile(FILE, ["Edit session-store.ts carefully"])).toBe(true);
+        expect(referencesFile(FILE, ["the session-store module caches tokens"])).toBe(true);
+        expect(referencesFile(FILE, ["the session-stores module"])).toBe(false);
+        expect(referencesFile(FILE, [], ["src/auth/session-store.ts"])).toBe(true);
+        expect(referencesFile(FILE, [], ["ore.ts"])).toBe(false);
+    });
+});
+
+describe("findFileContext", () => {
+    it("collects memories, file/component entities and mistakes referencing the file", () => {
+        const byProvenance = createMemoryEntry({ id: "prov", title: "Token refresh", content: "Refresh before expiry", provenance: { source: "buddy_do", files: ["src/auth/session-store.ts"] } });
+        const byText = createMemoryEntry({ id: "text", title: "Session store convention", content: "session-store.ts must stay free of I/O" });
+        const unrelated = createMemoryEntry({ id: "other", title: "CSS", content: "Use SCSS sources" });
+        const s = createMockState({ memories: [byProvenance, byText, unrelated] });
+        s.entities = [
+            entity({ id: "e1" }),
+            entity({ id: "e2", name: "Login page", type: "file", observations: ["Reads from session-store.ts"] }),
+            entity({ id: "e3", name: "SessionStore", type: "technology" }),
+        ];
+        s.mistakes = [mistake];
+
+        const ctx = findFileContext(s, FILE);
+        expect(ctx.memories.map((m) => m.id).sort()).toEqual(["prov", "text"]);
+        expect(ctx.entities.map((e) => e.id)).toEqual(["e1", "e2"]);
+        expect(ctx.mistakes.map((m) => m.id)).toEqual(["mis_1"]);
+
+        const note = renderFileContext(FILE, ctx, 3)!;
+        expect(note).toContain("Code Buddy notes for session-store.ts");
+        expect(note).toContain("Past mistake: Changed session-store.ts without updating the cookie TTL → Keep the TTL in sync");
+        expect(note).toContain("SessionStore (component)");
+    });
+
+    it("renders nothing for a file memory knows nothing about", () => {
+        const s = createMockState({ memories: [createMemoryEntry()] });
+        expect(renderFileContext(FILE, findFileContext(s, FILE), 3)).toBeNull();
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { rankGuides, renderGuides, estimateTokens, isTopicShift, topicVector } from "../guides";
+import { createMockState, createMemoryEntry } from "./mock-state";
+
+const prompt = "fix the websocket reconnect logic";
+const memories = [
+    createMemoryEntry({ id: "note", type: "note", title: "Websocket reconnect notes", content: "Reconnect logic uses backoff", tags: ["auto-observed"] }),
+    createMemoryEntry({ id: "lesson", type: "lesson", title: "Websocket reconnect lesson", content: "Reconnect logic must reset backoff", tags: ["curated"] }),
+    createMemoryEntry({ id: "other", type: "decision", title: "Use Postgres", content: "Database choice", tags: [] }),
+];
+
+describe("rankGuides", () => {
+    it("keeps relevant memories and orders them by type weight", () => {
+        const s = createMockState({ memories });
+        s.config.hooks.guideTypeWeights = { lesson: 1.5, note: 0.5 };
+
+        expect(rankGuides(s, prompt, memories, new Map()).map((g) => g.memory.id)).toEqual(["lesson", "note"]);
+    });
+
+    it("applies include/exclude tags and zero weights", () => {
+        const s = createMockState({ memories });
+        s.config.hooks.guideExcludeTags = ["auto-observed"];
+        expect(rankGuides(s, prompt, memories, new Map()).map((g) => g.memory.id)).toEqual(["lesson"]);
+
+        s.config.hooks.guideExcludeTags = [];
+        s.config.hooks.guideIncludeTags = ["auto-observed"];
+        expect(rankGuides(s, prompt, memories, new Map()).map((g) => g.memory.id)).toEqual(["note"]);
+
+        s.config.hooks.guideIncludeTags = [];
+        s.config.hooks.guideTypeWeights = { note: 0 };
+        expect(rankGuides(s, prompt, memories, new Map()).map((g) => g.memory.id)).toEqual(["lesson"]);
+    });
+
+    it("respects the relevance threshold", () => {
+        const s = createMockState({ memories });
+        s.config.hooks.guideMinRelevance = 1.01;
+        expect(rankGuides(s, prompt, memories, new Map())).toEqual([]);
+    });
+});
+
+describe("renderGuides", () => {
+    const long = createMemoryEntry({ id: "long", title: "Long guide", content: "x".repeat(5000) });
+    const guides = [long, { ...long, id: "long2", title: "Second guide" }].map((memory) => ({ memory, relevance: 1, score: 1 }));
+
+    it("cuts each guide to guideMaxChars and caps the count", () => {
+        const s = createMockState();
+        s.config.hooks.guideMaxCount = 1;
+        const rendered = renderGuides(s, guides)!;
+
+        expect(rendered.used.map((m) => m.id)).toEqual(["long"]);
+        expect(rendered.text).toContain("x".repeat(800));
+        expect(rendered.text).not.toContain("x".repeat(801));
+    });
+
+    it("keeps the whole block within the token budget", () => {
+        const s = createMockState();
+        s.config.hooks.guideTokenBudget = 250;
+        const rendered = renderGuides(s, guides)!;
+
+        expect(estimateTokens(rendered.text)).toBeLessThanOrEqual(250);
+        expect(rendered.used.map((m) => m.id)).toEqual(["long"]);
+    });
+
+    it("returns null when the budget leaves no room", () => {
+        const s = createMockState();
+        s.config.hooks.guideTokenBudget = 20;
+        expect(renderGuides(s, guides)).toBeNull();
+    });
+});
+
+describe("isTopicShift", () => {
+    const context = [topicVector("fix the websocket reconnect logic"), topicVector("Websocket reconnect lesson: reset backoff")];
+
+    it("treats the first prompt as a new topic", () => {
+        expect(isTopicShift(createMockState(), "anything", [])).toBe(true);
+    });
+
+    it("stays on topic for related follow-ups", () => {
+        expect(isTopicShift(createMockState(), "the websocket still does not reconnect after sleep", context)).toBe(false);
+    });
+
+    it("detects a shift to an unrelated subject", () => {
+        expect(isTopicShift(createMockState(), "now add a CSV export for invoices", context)).toBe(true);
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ObservationJournal, parseJournal } from "../journal";
+import { PluginState } from "../state";
+import { LocalStorage } from "../storage";
+import { defaultConfig } from "../config";
+import { createHooks } from "../hooks";
+import { createObservation } from "./mock-state";
+
+/** A pid no process has (above the kernel's pid_max). */
+const DEAD_PID = 2 ** 22 + 1;
+const PROJECT = "/work/shop";
+const header = (projectId = PROJECT) => `${JSON.stringify({ kind: "project", projectId })}\n`;
+
+describe("ObservationJournal", () => {
+    let dir: string;
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-journal-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("appends per-session files and sets them aside on flush", () => {
+        const journal = new ObservationJournal(dir, PROJECT);
+        journal.append("ses/1", createObservation({ tool: "edit" }), "Build the invoice page");
+        journal.append("ses/1", createObservation({ tool: "bash" }));
+
+        const [name] = fs.readdirSync(dir);
+        expect(name).toBe(`${process.pid}-ses%2F1.jsonl`);
+        const parsed = parseJournal(fs.readFileSync(path.join(dir, name), "utf-8"));
+        expect(parsed.observations.map((o) => o.tool)).toEqual(["edit", "bash"]);
+        expect(parsed.projectId).toBe(PROJECT);
+        expect(parsed.delegationContext).toBe("Build the invoice page");
+
+        const aside = journal.rotate("ses/1");
+        journal.append("ses/1", createObservation({ tool: "read" }));
+        expect(fs.readdirSync(dir)).toHaveLength(2);
+        journal.discard(aside);
+        expect(fs.readdirSync(dir)).toEqual([name]);
+
+        journal.discardAll(new Set([path.join(dir, name)]));
+        expect(fs.readdirSync(dir)).toEqual([name]);
+        journal.discardAll();
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it("keeps a session's journal on exit when its observations could not be saved", () => {
+        const config = { ...defaultConfig, features: { ...defaultConfig.features, verbose: false } };
+        const s = new PluginState(new LocalStorage(dir, () => {}), config, path.join(dir, "config.json"), null, PROJECT);
+        const exitHandlers: Array<() => void> = [];
+        const on = vi.spyOn(process, "on").mockImplementation(((event: string, handler: () => void) => {
+            if (event === "exit") exitHandlers.push(handler);
+            return process;
+        }) as typeof process.on);
+        createHooks(s);
+        on.mockRestore();
+
+        for (const file of ["a.ts", "b.ts", "c.ts"]) {
+            s.pushObservation(createObservation({ tool: "edit", sessionId: "ses_1", isWriteAction: true, fileEdited: path.join(dir, file) }));
+        }
+        const journalDir = path.join(dir, "journal");
+        vi.spyOn(s, "saveMemories").mockReturnValue(false);
+        exitHandlers[0]();
+
+        const kept = fs.readdirSync(journalDir);
+        expect(kept).toHaveLength(1);
+        expect(kept[0]).toMatch(new RegExp(`^${process.pid}-ses_1\\.jsonl\\.flushing-\\d+$`));
+        expect(parseJournal(fs.readFileSync(path.join(journalDir, kept[0]), "utf-8")).observations).toHaveLength(3);
+    });
+
+    it("claims journals of dead processes only, once", () => {
+        const line = JSON.stringify({ kind: "observation", observation: createObservation({ tool: "edit" }) });
+        fs.writeFileSync(path.join(dir, `${DEAD_PID}-crashed.jsonl`), `${header()}${line}\n${line}\n{"kind":"obs`);
+        fs.writeFileSync(path.join(dir, `${DEAD_PID}-midflush.jsonl.flushing-123`), `${header()}${line}\n`);
+        fs.writeFileSync(path.join(dir, `${process.ppid}-alive.jsonl`), `${header()}${line}\n`);
+
+        const orphans = new ObservationJournal(dir, PROJECT).claimOrphans();
+        expect(orphans.map((o) => [o.sessionId, o.observations.length]).sort()).toEqual([["crashed", 2], ["midflush", 1]]);
+        expect(fs.readdirSync(dir)).toContain(`${process.ppid}-alive.jsonl`);
+        expect(new ObservationJournal(dir, PROJECT).claimOrphans()).toEqual([]);
+
+        for (const o of orphans) new ObservationJournal(dir, PROJECT).discard(o.file);
+        expect(fs.readdirSync(dir)).toEqual([`${process.ppid}-alive.jsonl`]);
+    });
+
+    it("reclaims a journal whose replaying process died", () => {
+        const line = JSON.stringify({ kind: "observation", observation: createObservation() });
+        fs.writeFileSync(path.join(dir, `${DEAD_PID}-s.jsonl.replaying-${DEAD_PID}`), `${header()}${line}\n`);
+        expect(new ObservationJournal(dir, PROJECT).claimOrphans().map((o) => o.sessionId)).toEqual(["s"]);
+    });
+
+    it("leaves other projects' journals for their own windows", () => {
+        const line = JSON.stringify({ kind: "observation", observation: createObservation() });
+        fs.writeFileSync(path.join(dir, `${DEAD_PID}-mine.jsonl`), `${header()}${line}\n`);
+        fs.writeFileSync(path.join(dir, `${DEAD_PID}-theirs.jsonl`), `${header("/work/blog")}${line}\n`);
+
+        expect(new ObservationJournal(dir, PROJECT).claimOrphans().map((o) => o.sessionId)).toEqual(["mine"]);
+        expect(new ObservationJournal(dir, "/work/blog").claimOrphans().map((o) => o.sessionId)).toEqual(["theirs"]);
+    });
+});
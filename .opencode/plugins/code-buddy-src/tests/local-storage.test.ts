@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LocalStorage } from "../storage";
+import { createMemoryEntry } from "./mock-state";
+
+describe("LocalStorage", () => {
+    let dir: string;
+    const silent = () => {};
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-json-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("writes atomically and leaves no temp or lock files behind", () => {
+        const storage = new LocalStorage(dir, silent);
+        expect(storage.save("memories", [createMemoryEntry({ id: "mem_a" })])).toBe(true);
+
+        expect(fs.readdirSync(dir)).toEqual(["memory.json"]);
+        expect(storage.load("memories").map((m) => m.id)).toEqual(["mem_a"]);
+    });
+
+    it("quarantines a corrupt file and refuses to overwrite it", () => {
+        fs.writeFileSync(path.join(dir, "memory.json"), "[{\"id\": \"mem_a\", \"tit", "utf-8");
+        const storage = new LocalStorage(dir, silent);
+
+        expect(storage.load("memories")).toEqual([]);
+        expect(storage.getQuarantined()).toEqual(["memory.json"]);
+        const quarantined = fs.readdirSync(path.join(dir, "quarantine"));
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0]).toMatch(/^memory\.json\..*\.corrupt$/);
+
+        expect(storage.save("memories", [])).toBe(false);
+        expect(fs.readFileSync(path.join(dir, "memory.json"), "utf-8")).toContain("mem_a");
+    });
+
+    it("breaks a lock left behind by a dead process", () => {
+        fs.writeFileSync(path.join(dir, "memory.json.lock"), JSON.stringify({ pid: 2 ** 22 + 7 }), "utf-8");
+        const storage = new LocalStorage(dir, silent);
+
+        expect(storage.save("memories", [createMemoryEntry()])).toBe(true);
+        expect(fs.existsSync(path.join(dir, "memory.json.lock"))).toBe(false);
+    });
+
+    it("never breaks an old lock whose holder is still alive", () => {
+        const lockPath = path.join(dir, "memory.json.lock");
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid }), "utf-8");
+        const old = new Date(Date.now() - 60_000);
+        fs.utimesSync(lockPath, old, old);
+        const storage = new LocalStorage(dir, silent);
+
+        // Skip the 5 s wait: each clock read jumps 10 s ahead
+        const realNow = Date.now.bind(Date);
+        let reads = 0;
+        vi.spyOn(Date, "now").mockImplementation(() => realNow() + 10_000 * reads++);
+        expect(storage.save("memories", [createMemoryEntry()])).toBe(false);
+        vi.restoreAllMocks();
+        expect(JSON.parse(fs.readFileSync(lockPath, "utf-8"))).toEqual({ pid: process.ppid });
+    });
+
+    it("breaks an old lock without a readable holder, and puts back a lock that replaced it", () => {
+        const lockPath = path.join(dir, "memory.json.lock");
+        fs.writeFileSync(lockPath, "", "utf-8");
+        const old = new Date(Date.now() - 60_000);
+        fs.utimesSync(lockPath, old, old);
+        const storage = new LocalStorage(dir, silent);
+        expect(storage.save("memories", [createMemoryEntry()])).toBe(true);
+
+        // Another process's fresh lock sits where the stale one (a different inode) was judged
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid }), "utf-8");
+        (storage as unknown as { breakStaleLock(p: string, l: { ino: number }): void }).breakStaleLock(lockPath, { ino: -1 });
+        expect(JSON.parse(fs.readFileSync(lockPath, "utf-8"))).toEqual({ pid: process.ppid });
+        expect(fs.readdirSync(dir).sort()).toEqual(["memory.json", "memory.json.lock"]);
+    });
+});
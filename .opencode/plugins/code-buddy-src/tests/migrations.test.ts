@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LocalStorage } from "../storage";
+import { runMigrations, CURRENT_SCHEMA_VERSION } from "../migrations";
+
+describe("runMigrations", () => {
+    let dir: string;
+    const silent = () => {};
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-migrate-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("upgrades legacy bare-array files and backs them up first", () => {
+        const legacy = [{ id: "mem_1", type: "bugfix", title: "Old", content: "c", tags: ["x"], timestamp: 1706976000000 }];
+        fs.writeFileSync(path.join(dir, "memory.json"), JSON.stringify(legacy), "utf-8");
+
+        const storage = new LocalStorage(dir, silent);
+        runMigrations(storage, silent);
+
+        const file = JSON.parse(fs.readFileSync(path.join(dir, "memory.json"), "utf-8"));
+        expect(file.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(file.items[0].timestamp).toBe(new Date(1706976000000).toISOString());
+        expect(file.items[0].category).toBe("solution");
+
+        const backups = fs.readdirSync(path.join(dir, "migration-backups"));
+        expect(backups).toHaveLength(1);
+        expect(backups[0]).toMatch(/^memories\.v1\./);
+        expect(JSON.parse(fs.readFileSync(path.join(dir, "migration-backups", backups[0]), "utf-8"))).toEqual(legacy);
+    });
+
+    it("stamps empty collections without creating backups", () => {
+        const storage = new LocalStorage(dir, silent);
+        runMigrations(storage, silent);
+
+        expect(storage.getSchemaVersion("entities")).toBe(CURRENT_SCHEMA_VERSION);
+        expect(fs.existsSync(path.join(dir, "migration-backups"))).toBe(false);
+    });
+
+    it("is a no-op once data is current", () => {
+        const storage = new LocalStorage(dir, silent);
+        runMigrations(storage, silent);
+        const before = fs.readFileSync(path.join(dir, "memory.json"), "utf-8");
+
+        runMigrations(new LocalStorage(dir, silent), silent);
+
+        expect(fs.readFileSync(path.join(dir, "memory.json"), "utf-8")).toBe(before);
+    });
+
+    it("leaves a corrupt file untouched", () => {
+        fs.writeFileSync(path.join(dir, "mistakes.json"), "{not json", "utf-8");
+        runMigrations(new LocalStorage(dir, silent), silent);
+
+        expect(fs.readFileSync(path.join(dir, "mistakes.json"), "utf-8")).toBe("{not json");
+    });
+});
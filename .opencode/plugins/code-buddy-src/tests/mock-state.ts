@@ -1,6 +1,8 @@
 import { vi } from "vitest";
-import type { MemoryEntry, Observation, PluginConfig, SessionState } from "../types";
+import type { MemoryEntry, Observation, PluginConfig, SessionState, FileSnapshot } from "../types";
 import type { PluginState } from "../state";
+import { rankRecords, SearchIndex, SEARCH_CONFIG } from "../search";
+import type { SearchableCollection } from "../search";
 
 export function createMockState(overrides: {
     memories?: MemoryEntry[];
@@ -9,6 +11,7 @@ export function createMockState(overrides: {
 } = {}): PluginState {
     const memories = overrides.memories ?? [];
     const observationBuffer = overrides.observationBuffer ?? [];
+    const fileSnapshots = new Map<string, Record<string, FileSnapshot>>();
 
     return {
         memories,
@@ -16,13 +19,20 @@ export function createMockState(overrides: {
         config: {
             enabled: true,
             llm: { preferredProvider: "", preferredModel: "", maxTokens: 1000, temperature: 0.7 },
-            storage: { dataDir: "/tmp/test" },
+            storage: { dataDir: "/tmp/test", backend: "json", scope: "project", maxSnapshots: 5, trashRetentionDays: 30 },
             features: { memory: true, knowledgeGraph: false, errorLearning: false, workflow: false, ai: true, verbose: false },
             hooks: {
                 autoRemind: false, protectEnv: false, trackFiles: false, compactionContext: false,
-                autoObserve: true, observeMinActions: 2, observeIgnoreTools: [], fullAuto: true,
+                autoObserve: true, observeMinActions: 2, observeIgnoreTools: [], extractors: {}, fullAuto: true,
                 autoErrorDetect: false, requireEditForRecord: true,
+                guideMinRelevance: 0.15, guideMaxCount: 2, guideMaxChars: 800, guideMaxInjectionsPerSession: 1,
+                guideTopicShiftThreshold: 0.15,
+                guideTokenBudget: 600, guideTypeWeights: {}, guideIncludeTags: [], guideExcludeTags: [],
+                pitfallMinRelevance: 0.3, pitfallMaxCount: 2, fileContext: true, fileContextMaxItems: 3,
+                compactionTokenBudget: 1500,
             },
+            embeddings: { mode: "local", model: "text-embedding-3-small", vectorWeight: 0.5, minSimilarity: 0.2 },
+            redaction: { enabled: true, patterns: [], minEntropy: 4 },
         } as PluginConfig,
         resolvedProvider: overrides.resolvedProvider ?? null,
         session: {
@@ -37,21 +47,54 @@ export function createMockState(overrides: {
         client: {
             config: { providers: vi.fn().mockResolvedValue({ data: null }) },
         },
+        projectId: "/tmp/test-project",
         entities: [],
         relations: [],
         mistakes: [],
-        pendingDeletion: null,
-        storage: { read: vi.fn(() => []), write: vi.fn() } as any,
+        revisions: [],
+        trash: [],
+        vectors: [],
+        injections: [],
+        pendingDeletions: new Map(),
+        storage: { kind: "json", load: vi.fn(() => []), save: vi.fn(() => true) } as any,
         configPath: "/tmp/test-config.json",
-        saveMemories: vi.fn(),
-        saveEntities: vi.fn(),
-        saveRelations: vi.fn(),
-        saveMistakes: vi.fn(),
+        saveMemories: vi.fn(() => true),
+        saveEntities: vi.fn(() => true),
+        saveRelations: vi.fn(() => true),
+        saveMistakes: vi.fn(() => true),
+        saveRevisions: vi.fn(() => true),
+        saveTrash: vi.fn(() => true),
+        saveVectors: vi.fn(),
+        flushVectors: vi.fn(),
+        saveInjections: vi.fn(() => true),
+        snapshotBefore: vi.fn(),
+        createSnapshot: vi.fn((reason: string) => ({ id: `snap_${reason}`, createdAt: new Date().toISOString(), reason, counts: { memories: 0, entities: 0, relations: 0, mistakes: 0 } })),
+        provenance: vi.fn((source: string) => ({ source })),
+        llmModel: vi.fn(() => undefined),
+        setSessionModel: vi.fn(),
+        inScope: vi.fn((items: unknown[]) => items),
+        search: vi.fn((collection: SearchableCollection, items: Array<{ id: string }>, query: string) => rankRecords(items, query, SEARCH_CONFIG[collection])),
+        searchScored: vi.fn((collection: SearchableCollection, items: Array<{ id: string }>, query: string) => {
+            const index = new SearchIndex(SEARCH_CONFIG[collection]);
+            index.sync(items);
+            const byId = new Map(items.map((i) => [i.id, i]));
+            return index.search(query).map((hit) => ({ item: byId.get(hit.id), score: hit.score }));
+        }),
         getSolutionMemories: vi.fn(() => []),
         getKnowledgeMemories: vi.fn(() => []),
         pushObservation: vi.fn((obs: Observation) => observationBuffer.push(obs)),
         clearObservations: vi.fn(() => { observationBuffer.length = 0; }),
+        sessionFileSnapshots: vi.fn((sessionId: string) => {
+            if (!fileSnapshots.has(sessionId)) fileSnapshots.set(sessionId, {});
+            return fileSnapshots.get(sessionId)!;
+        }),
+        takeFileSnapshots: vi.fn((sessionId: string) => {
+            const files = fileSnapshots.get(sessionId) ?? {};
+            fileSnapshots.delete(sessionId);
+            return files;
+        }),
         log: vi.fn(),
+        readLogs: vi.fn(() => []),
     } as unknown as PluginState;
 }
 
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { groupRecurring, rankPitfalls, renderPitfalls } from "../pitfalls";
+import { createMockState } from "./mock-state";
+import type { MistakeRecord } from "../types";
+
+function mistake(overrides: Partial<MistakeRecord>): MistakeRecord {
+    return {
+        id: "mis_1",
+        timestamp: "2026-01-01T00:00:00Z",
+        action: "Ran database migration without a backup",
+        errorType: "procedure-violation",
+        userCorrection: "Always back up first",
+        correctMethod: "Take a snapshot before running migrations",
+        impact: "Lost production data",
+        preventionMethod: "Add a backup step to the migration script",
+        ...overrides,
+    };
+}
+
+const migration = mistake({ id: "m1" });
+const migrationAgain = mistake({ id: "m2", timestamp: "2026-02-01T00:00:00Z", action: "Ran the database migration without backup" });
+const css = mistake({
+    id: "m3", action: "Edited the generated CSS bundle directly", errorType: "workflow-skip",
+    correctMethod: "Edit the SCSS sources", impact: "Changes lost on rebuild", preventionMethod: "",
+});
+
+describe("groupRecurring", () => {
+    it("groups similar actions of the same type under the newest record", () => {
+        const groups = groupRecurring([migration, css, migrationAgain]);
+        expect(groups.map((g) => [g.mistake.id, g.all.length])).toEqual([["m2", 2], ["m3", 1]]);
+    });
+});
+
+describe("rankPitfalls", () => {
+    it("matches prompts against the action or the impact", () => {
+        const s = createMockState();
+        expect(rankPitfalls(s, "please run the database migration", [migration, css]).map((p) => p.mistake.id)).toEqual(["m1"]);
+        expect(rankPitfalls(s, "why did my changes vanish after the rebuild?", [migration, css]).map((p) => p.mistake.id)).toEqual(["m3"]);
+        expect(rankPitfalls(s, "add a dark mode toggle", [migration, css])).toEqual([]);
+    });
+
+    it("ranks recurring pitfalls above one-offs of similar relevance", () => {
+        const s = createMockState();
+        const cssTwice = [css, { ...css, id: "m4", timestamp: "2026-03-01T00:00:00Z" }];
+        const ranked = rankPitfalls(s, "edit the generated bundle before the database migration", [migration, ...cssTwice]);
+        expect(ranked[0]).toMatchObject({ occurrences: 2 });
+        expect(ranked[0].score).toBeGreaterThan(ranked[0].relevance);
+    });
+});
+
+describe("renderPitfalls", () => {
+    it("shows the correction, prevention and recurrence", () => {
+        const s = createMockState();
+        const rendered = renderPitfalls(s, rankPitfalls(s, "run the database migration", [migration, migrationAgain]))!;
+        expect(rendered.used.map((m) => m.id)).toEqual(["m2"]);
+        expect(rendered.text).toContain("happened 2×");
+        expect(rendered.text).toContain("Do instead: Take a snapshot before running migrations");
+        expect(rendered.text).toContain("Prevention: Add a backup step");
+    });
+
+    it("is disabled by pitfallMaxCount 0", () => {
+        const s = createMockState();
+        s.config.hooks.pitfallMaxCount = 0;
+        expect(renderPitfalls(s, rankPitfalls(s, "run the database migration", [migration]))).toBeNull();
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { readGitInfo, resolveProjectRoot } from "../project";
+
+describe("readGitInfo", () => {
+    let root: string;
+    const commit = "0123456789abcdef0123456789abcdef01234567";
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-git-"));
+        fs.mkdirSync(path.join(root, ".git", "refs", "heads"), { recursive: true });
+    });
+    afterEach(() => { fs.rmSync(root, { recursive: true, force: true }); });
+
+    it("reads the branch and its loose ref", () => {
+        fs.writeFileSync(path.join(root, ".git", "HEAD"), "ref: refs/heads/feature/x\n");
+        fs.mkdirSync(path.join(root, ".git", "refs", "heads", "feature"));
+        fs.writeFileSync(path.join(root, ".git", "refs", "heads", "feature", "x"), `${commit}\n`);
+
+        expect(readGitInfo(root)).toEqual({ branch: "feature/x", commit: commit.substring(0, 12) });
+        expect(resolveProjectRoot(path.join(root))).toBe(root);
+    });
+
+    it("falls back to packed-refs", () => {
+        fs.writeFileSync(path.join(root, ".git", "HEAD"), "ref: refs/heads/main\n");
+        fs.writeFileSync(path.join(root, ".git", "packed-refs"), `# pack-refs with: peeled\n${commit} refs/heads/main\n`);
+
+        expect(readGitInfo(root)).toEqual({ branch: "main", commit: commit.substring(0, 12) });
+    });
+
+    it("handles a detached HEAD and non-git directories", () => {
+        fs.writeFileSync(path.join(root, ".git", "HEAD"), `${commit}\n`);
+        expect(readGitInfo(root)).toEqual({ commit: commit.substring(0, 12) });
+
+        fs.rmSync(path.join(root, ".git"), { recursive: true });
+        expect(readGitInfo(root)).toEqual({});
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { parseQuery, runMemoryQuery, ParseError } from "../query";
+import { createMockState, createMemoryEntry } from "./mock-state";
+
+describe("parseQuery", () => {
+    it("parses filters, negation, phrases and words", () => {
+        const { groups } = parseQuery('tag:testing type:bugfix -tag:auto-observed "exact phrase" login -flaky');
+
+        expect(groups).toHaveLength(1);
+        expect(groups[0].filters).toEqual([
+            { field: "tag", value: "testing", negate: false },
+            { field: "type", value: "bugfix", negate: false },
+            { field: "tag", value: "auto-observed", negate: true },
+        ]);
+        expect(groups[0].phrases).toEqual([{ text: "exact phrase", negate: false }]);
+        expect(groups[0].words).toEqual(["login"]);
+        expect(groups[0].excludedWords).toEqual(["flaky"]);
+    });
+
+    it("splits alternatives on OR", () => {
+        const { groups } = parseQuery("type:decision database OR type:lesson");
+        expect(groups).toHaveLength(2);
+        expect(groups[1].filters[0].value).toBe("lesson");
+    });
+
+    it("accepts quoted filter values and ages", () => {
+        const { groups } = parseQuery('file:"src/my file.ts" before:90d');
+        expect(groups[0].filters[0].value).toBe("src/my file.ts");
+        const cutoff = groups[0].filters[1].value as number;
+        expect(Math.abs(Date.now() - 90 * 86400000 - cutoff)).toBeLessThan(1000);
+    });
+
+    it("treats a trailing colon and URLs as plain words", () => {
+        const { groups } = parseQuery("Error: see https://example.com/x");
+        expect(groups[0].filters).toEqual([]);
+        expect(groups[0].words).toEqual(["Error:", "see", "https://example.com/x"]);
+    });
+
+    it.each(["localhost:3000", "auth.ts:42", "TypeError:foo", "C:\\Users\\app", "tga:testing", 'note:"two words"'])("treats unknown prefix %j as a plain word", (input) => {
+        const { groups } = parseQuery(input);
+        expect(groups[0].filters).toEqual([]);
+        expect(groups[0].words).toEqual(input.split(" "));
+    });
+
+    it("parses an empty query as one group that matches everything", () => {
+        expect(parseQuery("   ").groups).toEqual([{ filters: [], phrases: [], words: [], excludedWords: [] }]);
+    });
+
+    it.each([
+        ["login type:bugfx", /Unknown type "bugfx".*position 7/],
+        ["category:stuff", /Unknown category/],
+        ["after:yesterday", /Invalid date/],
+        ['"open phrase', /Unterminated quote/],
+        ["OR login", /OR must be between two terms/],
+        ["login OR", /OR must be between two terms/],
+    ])("rejects %j", (input, message) => {
+        expect(() => parseQuery(input)).toThrow(ParseError);
+        expect(() => parseQuery(input)).toThrow(message);
+    });
+});
+
+describe("runMemoryQuery", () => {
+    const memories = [
+        createMemoryEntry({ id: "a", title: "Login race condition", content: "Fixed flaky login test", type: "bugfix", tags: ["testing"], timestamp: "2026-03-01T00:00:00.000Z" }),
+        createMemoryEntry({ id: "b", title: "Login observed", content: "Auto notes", type: "bugfix", tags: ["testing", "auto-observed"], timestamp: "2026-03-02T00:00:00.000Z" }),
+        createMemoryEntry({ id: "c", title: "Use Postgres", content: "Database decision", type: "decision", tags: [], timestamp: "2025-06-01T00:00:00.000Z" }),
+    ];
+    const run = async (query: string) => (await runMemoryQuery(createMockState({ memories }), memories, parseQuery(query))).map((m) => m.id);
+
+    it("applies filters and negation", async () => {
+        expect(await run("tag:testing type:bugfix after:2026-01-01 -tag:auto-observed")).toEqual(["a"]);
+    });
+
+    it("requires phrases and excludes negated words", async () => {
+        expect(await run('"race condition"')).toEqual(["a"]);
+        expect(await run("login -flaky")).toEqual(["b"]);
+    });
+
+    it("unions OR alternatives without duplicates", async () => {
+        expect(await run("type:decision OR tag:testing OR postgres")).toEqual(["c", "b", "a"]);
+    });
+
+    it("lists everything, newest first, for an empty query", async () => {
+        expect(await run("")).toEqual(["b", "a", "c"]);
+    });
+
+    it("selects old memories for bulk deletion", async () => {
+        expect(await run("before:2026-01-01")).toEqual(["c"]);
+    });
+});
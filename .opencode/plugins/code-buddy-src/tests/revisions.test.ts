@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { createMockState, createMemoryEntry } from "./mock-state";
+import { recordRevision, getRevisions, diffRevisions } from "../revisions";
+import { saveMemoryWithSyncDedup } from "../dedup";
+
+describe("recordRevision", () => {
+    it("stores the original state before the first change", () => {
+        const s = createMockState();
+        const memory = createMemoryEntry({ id: "mem_a", title: "Old title", content: "old" });
+        const before = { ...memory, tags: [...memory.tags] };
+        memory.content = "new";
+
+        recordRevision(s, before, memory, "update", "build");
+        const revisions = getRevisions(s, "mem_a");
+
+        expect(revisions.map((r) => [r.revision, r.source, r.content])).toEqual([[1, "original", "old"], [2, "update", "new"]]);
+        expect(revisions[1].author).toBe("build");
+        expect(diffRevisions(revisions[0], revisions[1])).toContain("-old\n+new");
+        expect(s.saveRevisions).toHaveBeenCalled();
+    });
+
+    it("numbers later revisions sequentially", () => {
+        const s = createMockState();
+        const memory = createMemoryEntry({ id: "mem_a" });
+        recordRevision(s, { ...memory }, { ...memory, content: "v2" }, "update", "user");
+        recordRevision(s, { ...memory, content: "v2" }, { ...memory, content: "v3" }, "revert", "user");
+
+        expect(getRevisions(s, "mem_a").map((r) => r.revision)).toEqual([1, 2, 3]);
+    });
+
+    it("is recorded for sync dedup merges", () => {
+        const existing = createMemoryEntry({ id: "mem_a", title: "Fix login timeout bug", content: "Increased the session timeout for login" });
+        const s = createMockState({ memories: [existing] });
+
+        saveMemoryWithSyncDedup(s, createMemoryEntry({ id: "mem_b", title: "Fix login timeout bug", content: "Increased the session timeout for login flow" }));
+
+        const revisions = getRevisions(s, "mem_a");
+        expect(revisions.map((r) => r.source)).toEqual(["original", "sync-merge"]);
+        expect(revisions[1].author).toBe("code-buddy");
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { searchAll } from "../search-all";
+import { createMockState, createMemoryEntry } from "./mock-state";
+import type { Entity, Relation, MistakeRecord } from "../types";
+
+function entity(id: string, name: string, observations: string[] = []): Entity {
+    return { id, name, type: "component", observations, tags: [], createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+describe("searchAll", () => {
+    const memories = [
+        createMemoryEntry({ id: "direct", title: "Token refresh race", content: "Refresh tokens twice in parallel", timestamp: "2026-02-01T00:00:00.000Z" }),
+        createMemoryEntry({ id: "linked", title: "Login flow notes", content: "AuthService redirects to /callback", timestamp: "2026-01-15T00:00:00.000Z" }),
+        createMemoryEntry({ id: "other", title: "Snake game", content: "Canvas rendering", timestamp: "2026-01-10T00:00:00.000Z" }),
+    ];
+    const entities = [entity("e1", "AuthService", ["Issues and refreshes tokens"]), entity("e2", "SessionStore")];
+    const relations: Relation[] = [{ id: "r1", from: "AuthService", to: "SessionStore", type: "uses", createdAt: "2026-01-01T00:00:00.000Z" }];
+    const mistakes: MistakeRecord[] = [{
+        id: "m1", timestamp: "2026-01-20T00:00:00.000Z", action: "Cached refresh token in localStorage", errorType: "procedure-violation",
+        userCorrection: "", correctMethod: "Use an httpOnly cookie", impact: "", preventionMethod: "",
+    }];
+
+    function state() {
+        const s = createMockState({ memories });
+        Object.assign(s, { entities, relations, mistakes });
+        s.readLogs = vi.fn(() => [
+            "[2026-01-20T10:00:00.000Z] [code-buddy] token refresh failed",
+            "[2026-01-20T11:00:00.000Z] [code-buddy] unrelated line",
+        ]);
+        return s;
+    }
+
+    it("returns ranked hits from every collection", async () => {
+        const r = await searchAll(state(), "refresh token");
+
+        expect(r.memories[0]).toEqual({ item: memories[0] });
+        expect(r.entities[0].item.id).toBe("e1");
+        expect(r.mistakes.map((m) => m.id)).toEqual(["m1"]);
+        expect(r.logs).toEqual(["[2026-01-20T10:00:00.000Z] [code-buddy] token refresh failed"]);
+    });
+
+    it("follows relations from matching entities to neighbours and linked memories", async () => {
+        const r = await searchAll(state(), "refresh token");
+
+        expect(r.relations).toEqual([{ item: relations[0], via: 'relation of entity "AuthService"' }]);
+        expect(r.entities[1]).toEqual({ item: entities[1], via: "AuthService --[uses]--> SessionStore" });
+        expect(r.memories.find((m) => m.item.id === "linked")?.via).toBe('mentions entity "AuthService"');
+        expect(r.memories.some((m) => m.item.id === "other")).toBe(false);
+    });
+
+    it("restricts to the requested groups", async () => {
+        const r = await searchAll(state(), "refresh token", { groups: ["mistakes"] });
+
+        expect(r.mistakes).toHaveLength(1);
+        expect(r.memories).toEqual([]);
+        expect(r.logs).toEqual([]);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { SearchIndex, SEARCH_CONFIG, tokenize } from "../search";
+import { createMemoryEntry } from "./mock-state";
+
+describe("tokenize", () => {
+    it("splits words, drops stopwords and strips plural suffixes", () => {
+        expect(tokenize("The Bugs in auth_flow, fixes!")).toEqual(["bug", "auth_flow", "fix"]);
+    });
+});
+
+describe("SearchIndex", () => {
+    const memory = (id: string, title: string, content: string, tags: string[] = [], timestamp = "2026-01-01T00:00:00.000Z") =>
+        createMemoryEntry({ id, title, content, tags, timestamp });
+
+    it("matches whole tokens, not substrings", () => {
+        const index = new SearchIndex(SEARCH_CONFIG.memories);
+        index.sync([memory("a", "Author profile page", "Shows the author bio"), memory("b", "Auth token refresh", "Refresh JWT")]);
+
+        expect(index.search("auth").map((h) => h.id)).toEqual(["b"]);
+    });
+
+    it("boosts title over tags over content", () => {
+        const index = new SearchIndex(SEARCH_CONFIG.memories);
+        index.sync([
+            memory("content", "Unrelated", "we touched the cache layer"),
+            memory("tags", "Unrelated too", "nothing here", ["cache"]),
+            memory("title", "Cache invalidation", "nothing here"),
+        ]);
+
+        expect(index.search("cache").map((h) => h.id)).toEqual(["title", "tags", "content"]);
+    });
+
+    it("breaks ties by recency", () => {
+        const index = new SearchIndex(SEARCH_CONFIG.memories);
+        index.sync([
+            memory("old", "Docker setup", "x", [], "2026-01-01T00:00:00.000Z"),
+            memory("new", "Docker setup", "x", [], "2026-03-01T00:00:00.000Z"),
+        ]);
+
+        expect(index.search("docker").map((h) => h.id)).toEqual(["new", "old"]);
+    });
+
+    it("updates incrementally on change and removal", () => {
+        const index = new SearchIndex(SEARCH_CONFIG.memories);
+        const a = memory("a", "Redis cache", "x");
+        index.sync([a, memory("b", "Postgres", "y")]);
+
+        a.title = "Memcached cache";
+        index.sync([a]);
+
+        expect(index.size).toBe(1);
+        expect(index.search("redis")).toEqual([]);
+        expect(index.search("memcached").map((h) => h.id)).toEqual(["a"]);
+        expect(index.search("postgres")).toEqual([]);
+    });
+
+    it("restricts results to the allowed ids", () => {
+        const index = new SearchIndex(SEARCH_CONFIG.memories);
+        index.sync([memory("a", "Login bug", "x"), memory("b", "Login flow", "y")]);
+
+        expect(index.search("login", new Set(["b"])).map((h) => h.id)).toEqual(["b"]);
+    });
+});
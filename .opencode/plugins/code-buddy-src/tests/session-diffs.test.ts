@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { readSnapshot, recordFileEdit, sessionDiffs, diffSides, diffStat, PendingSnapshots } from "../session-diffs";
+import { detectSessionType } from "../dedup";
+import { createHooks } from "../hooks";
+import { createMockState, createObservation } from "./mock-state";
+
+describe("recordFileEdit / sessionDiffs", () => {
+    let dir: string;
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-diffs-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("diffs each file from before its first edit to after its last", () => {
+        const s = createMockState();
+        const file = path.join(dir, "game.js");
+        fs.writeFileSync(file, "let speed = 1;\nlet score = 0;\n");
+
+        // Two edits: the diff shows the net change, not each step
+        const before = readSnapshot(file);
+        fs.writeFileSync(file, "let speed = 2;\nlet score = 0;\n");
+        recordFileEdit(s, "ses", file, before);
+        recordFileEdit(s, "ses", file, readSnapshot(file));
+        fs.writeFileSync(file, "let speed = 3;\nlet score = 0;\n");
+        recordFileEdit(s, "ses", file, readSnapshot(file));
+
+        const created = path.join(dir, "new.css");
+        const missing = readSnapshot(created);
+        fs.writeFileSync(created, "body { margin: 0; }\n");
+        recordFileEdit(s, "ses", created, missing);
+
+        const diffs = sessionDiffs([], s.takeFileSnapshots("ses"));
+        expect(diffs).toHaveLength(2);
+        expect(diffs[0]).toMatchObject({ file, added: ["let speed = 3;"], removed: ["let speed = 1;"], created: false });
+        expect(diffs[0].diff).toContain(`--- ${file}`);
+        expect(diffs[1]).toMatchObject({ file: created, added: ["body { margin: 0; }"], removed: [], created: true });
+        expect(diffStat(diffs)).toBe("game.js +1/-1, new.css +1/-0");
+    });
+
+    it("keeps each session's before snapshot when two sessions edit a file at once", () => {
+        const s = createMockState();
+        const file = path.join(dir, "shared.ts");
+        fs.writeFileSync(file, "a = 0\nb = 0\n");
+        const pending = new PendingSnapshots();
+
+        // A reads its before, writes; B reads its before (A's result) before A's after hook runs
+        pending.capture("ses_a", file);
+        fs.writeFileSync(file, "a = 1\nb = 0\n");
+        pending.capture("ses_b", file);
+        recordFileEdit(s, "ses_a", file, pending.take("ses_a", file));
+        fs.writeFileSync(file, "a = 1\nb = 1\n");
+        recordFileEdit(s, "ses_b", file, pending.take("ses_b", file));
+
+        expect(sessionDiffs([], s.takeFileSnapshots("ses_a"))[0]).toMatchObject({ added: ["a = 1"], removed: ["a = 0"] });
+        expect(sessionDiffs([], s.takeFileSnapshots("ses_b"))[0]).toMatchObject({ added: ["b = 1"], removed: ["b = 0"] });
+        expect(pending.take("ses_a", file)).toBeUndefined();
+    });
+
+    it("drops a before snapshot whose after hook never came", () => {
+        const pending = new PendingSnapshots();
+        const file = path.join(dir, "thrown.ts");
+        fs.writeFileSync(file, "x = 0\n");
+        pending.capture("ses", file, 0);
+        pending.capture("ses", path.join(dir, "next.ts"), 11 * 60 * 1000);
+        expect(pending.size).toBe(1);
+        expect(pending.take("ses", file)).toBeUndefined();
+    });
+
+    it("snapshots a file before an MCP tool that only says in its title that it edited it", async () => {
+        const s = createMockState();
+        const hooks = createHooks(s);
+        const file = path.join(dir, "doc.md");
+        fs.writeFileSync(file, "# Title\nold line\n");
+
+        const input = { tool: "docs_tool", sessionID: "ses", args: { path: file } };
+        await hooks["tool.execute.before"](input, { args: input.args });
+        fs.writeFileSync(file, "# Title\nnew line\n");
+        await hooks["tool.execute.after"](input, { title: `Edit ${file}`, output: "done", metadata: { sessionId: "ses" } });
+
+        expect(sessionDiffs([], s.takeFileSnapshots("ses"))[0]).toMatchObject({ file, added: ["new line"], removed: ["old line"] });
+    });
+
+    it("redacts secrets in snapshot diffs", () => {
+        const diffs = sessionDiffs([], { ".env.example": { before: "", after: "API_KEY=abc123xyz\n" } }, { enabled: true, patterns: [], minEntropy: 4 });
+        expect(diffs[0].added).toEqual(["API_KEY=[REDACTED]"]);
+    });
+
+    it("falls back to per-edit diffs for files without snapshots", () => {
+        const buf = [
+            createObservation({ tool: "edit", isWriteAction: true, fileEdited: "a.ts", diff: "--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-x = 1\n+x = 2" }),
+            createObservation({ tool: "edit", isWriteAction: true, fileEdited: "a.ts", args: { oldString: "y = 1", newString: "y = 2\nz = 3" } }),
+            createObservation({ tool: "read", fileEdited: undefined }),
+        ];
+        const [diff] = sessionDiffs(buf);
+        expect(diff).toMatchObject({ file: "a.ts", added: ["x = 2", "y = 2", "z = 3"], removed: ["x = 1", "y = 1"] });
+    });
+});
+
+describe("diffSides", () => {
+    it("skips file headers but keeps removed lines that look like them", () => {
+        expect(diffSides("--- q.sql\n+++ q.sql\n@@ -1,2 +1 @@\n--- old comment\n+SELECT 1;")).toEqual({
+            added: ["SELECT 1;"],
+            removed: ["-- old comment"],
+        });
+    });
+});
+
+describe("detectSessionType with session diffs", () => {
+    it("reads the diff instead of the edit arguments", () => {
+        const buf = [createObservation({ tool: "patch_file", isWriteAction: true, fileEdited: "a.js" })];
+        const added = Array.from({ length: 12 }, (_, i) => `line${i}`);
+        expect(detectSessionType(buf, [{ file: "a.js", diff: "", added, removed: [], created: false }])).toBe("enhance");
+        expect(detectSessionType(buf, [{ file: "b.js", diff: "", added, removed: [], created: true }])).toBe("build");
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { takeSnapshot, listSnapshots, loadSnapshot, diffSnapshot, isDailySnapshotDue } from "../snapshots";
+import type { SnapshotData } from "../snapshots";
+import { PluginState } from "../state";
+import { LocalStorage } from "../storage";
+import { defaultConfig } from "../config";
+import { createTools } from "../tools";
+import { createMemoryEntry } from "./mock-state";
+
+function data(memories: Array<{ id: string; title: string }>): SnapshotData {
+    return { memories, entities: [], relations: [], mistakes: [] };
+}
+
+describe("snapshots", () => {
+    let dir: string;
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-snap-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("takes, lists and loads snapshots", () => {
+        expect(isDailySnapshotDue(dir)).toBe(true);
+        const info = takeSnapshot(dir, data([{ id: "mem_1", title: "A" }]), "manual", 5);
+
+        expect(isDailySnapshotDue(dir)).toBe(false);
+        expect(listSnapshots(dir).map((s) => s.id)).toEqual([info.id]);
+        expect(info.counts.memories).toBe(1);
+
+        const loaded = loadSnapshot(dir, info.id.substring(0, 10));
+        expect(loaded?.collections.memories).toEqual([{ id: "mem_1", title: "A" }]);
+    });
+
+    it("lists snapshots from their info files without reading the full copies", () => {
+        const info = takeSnapshot(dir, data([{ id: "mem_1", title: "A" }]), "manual", 5);
+        const full = path.join(dir, "snapshots", `${info.id}.json`);
+        const infoFile = path.join(dir, "snapshots", `${info.id}.info.json`);
+        expect(JSON.parse(fs.readFileSync(infoFile, "utf-8"))).toEqual(info);
+
+        // Snapshots written before info files existed get one on first listing
+        fs.unlinkSync(infoFile);
+        expect(listSnapshots(dir)).toEqual([info]);
+        expect(fs.existsSync(infoFile)).toBe(true);
+
+        // From then on the full copy is not read (even when it no longer parses)
+        fs.writeFileSync(full, "not json");
+        expect(listSnapshots(dir)).toEqual([info]);
+    });
+
+    it("prunes the oldest snapshots beyond the limit", () => {
+        for (let i = 0; i < 4; i++) {
+            takeSnapshot(dir, data([]), `run-${i}`, 2);
+            const until = Date.now() + 5;
+            while (Date.now() < until) { /* distinct timestamps */ }
+        }
+        expect(listSnapshots(dir).map((s) => s.reason)).toEqual(["run-3", "run-2"]);
+        expect(fs.readdirSync(path.join(dir, "snapshots"))).toHaveLength(4);
+    });
+
+    it("diffs a snapshot against current data", () => {
+        const before = data([{ id: "mem_1", title: "A" }, { id: "mem_2", title: "B" }]);
+        const after = data([{ id: "mem_1", title: "A2" }, { id: "mem_3", title: "C" }]);
+
+        const diff = diffSnapshot(before, after).memories;
+        expect(diff.added.map((r) => r.id)).toEqual(["mem_3"]);
+        expect(diff.removed.map((r) => r.id)).toEqual(["mem_2"]);
+        expect(diff.changed).toEqual([{ before: { id: "mem_1", title: "A" }, after: { id: "mem_1", title: "A2" } }]);
+    });
+
+    it("restores only the current project's records unless global", async () => {
+        const config = { ...defaultConfig, features: { ...defaultConfig.features, verbose: false } };
+        const s = new PluginState(new LocalStorage(dir, () => {}), config, path.join(dir, "config.json"), null, "/work/shop");
+        s.memories.push(
+            createMemoryEntry({ id: "mem_shop", title: "Shop v1", project: "/work/shop" }),
+            createMemoryEntry({ id: "mem_blog", title: "Blog v1", project: "/work/blog" }),
+        );
+        s.saveMemories();
+        const snap = s.createSnapshot("manual")!;
+        for (const m of s.memories) m.title = m.title.replace("v1", "v2");
+        s.saveMemories();
+        const tools = createTools(s);
+        const ctx = { sessionID: "ses_a", messageID: "m", agent: "build" } as any;
+
+        expect(await tools.buddy_restore.execute({ snapshot: snap.id }, ctx)).toContain("(shop)");
+        expect(s.memories.map((m) => m.title).sort()).toEqual(["Blog v2", "Shop v1"]);
+
+        await tools.buddy_restore.execute({ snapshot: snap.id, global: true }, ctx);
+        expect(s.memories.map((m) => m.title).sort()).toEqual(["Blog v1", "Shop v1"]);
+    });
+});
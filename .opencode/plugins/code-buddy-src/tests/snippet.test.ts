@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { extractSnippet, highlightTerms } from "../snippet";
+
+describe("highlightTerms", () => {
+    it("bolds stemmed matches and skips stopwords", () => {
+        expect(highlightTerms("The tokens expired in the cache", ["token", "the"])).toBe("The **tokens** expired in the cache");
+    });
+});
+
+describe("extractSnippet", () => {
+    const filler = (n: number) => Array.from({ length: n }, (_, i) => `word${i}`).join(" ");
+
+    it("returns short texts whole, with whitespace collapsed", () => {
+        expect(extractSnippet("Fix the\n\n  login bug", ["login"])).toBe("Fix the **login** bug");
+    });
+
+    it("picks the window with the most distinct matching terms", () => {
+        const text = `${filler(100)} cache once. ${filler(100)} cache invalidation on token refresh. ${filler(100)}`;
+        const snippet = extractSnippet(text, ["cache", "token", "refresh"], 120);
+
+        expect(snippet).toContain("**cache** invalidation on **token** **refresh**");
+        expect(snippet.startsWith("…")).toBe(true);
+        expect(snippet.endsWith("…")).toBe(true);
+        expect(snippet.replace(/\*\*|…/g, "").length).toBeLessThanOrEqual(120);
+    });
+
+    it("falls back to the start of the text when nothing matches", () => {
+        const snippet = extractSnippet(`Intro sentence. ${filler(100)}`, ["missing"], 60);
+        expect(snippet.startsWith("Intro sentence.")).toBe(true);
+        expect(snippet.endsWith("…")).toBe(true);
+    });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createRequire } from "node:module";
+import { LocalStorage } from "../storage";
+import { SqliteStorage, migrateJsonToSqlite } from "../sqlite-storage";
+import { PluginState } from "../state";
+import { defaultConfig } from "../config";
+import { createMemoryEntry } from "./mock-state";
+
+const hasSqlite = (() => {
+    try { createRequire(import.meta.url)("node:sqlite"); return true; } catch { return false; }
+})();
+
+// `npm run test:sqlite` sets this so a runtime without node:sqlite fails instead of skipping
+const requireSqlite = process.env.CODE_BUDDY_REQUIRE_SQLITE === "1";
+
+describe.skipIf(!hasSqlite && !requireSqlite)("SqliteStorage", () => {
+    let dir: string;
+    const silent = () => {};
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-sqlite-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("round-trips records in insertion order", () => {
+        const db = new SqliteStorage(dir, silent);
+        db.load("memories");
+        const a = createMemoryEntry({ id: "mem_a", title: "Alpha" });
+        const b = createMemoryEntry({ id: "mem_b", title: "Beta" });
+        expect(db.save("memories", [a, b])).toBe(true);
+        db.close();
+
+        const reopened = new SqliteStorage(dir, silent);
+        expect(reopened.load("memories").map((m) => m.id)).toEqual(["mem_a", "mem_b"]);
+        reopened.close();
+    });
+
+    it("does not delete rows written by another instance", () => {
+        const first = new SqliteStorage(dir, silent);
+        const second = new SqliteStorage(dir, silent);
+        first.load("memories");
+        second.load("memories");
+
+        first.save("memories", [createMemoryEntry({ id: "mem_first" })]);
+        second.save("memories", [createMemoryEntry({ id: "mem_second" })]);
+
+        expect(first.load("memories").map((m) => m.id).sort()).toEqual(["mem_first", "mem_second"]);
+        first.close();
+        second.close();
+    });
+
+    it("removes deleted records and keeps the FTS index in sync", () => {
+        const db = new SqliteStorage(dir, silent);
+        db.load("memories");
+        const auth = createMemoryEntry({ id: "mem_auth", title: "Authentication flow", content: "JWT refresh tokens" });
+        const css = createMemoryEntry({ id: "mem_css", title: "Theme colors", content: "CSS variables in :root" });
+        db.save("memories", [auth, css]);
+        expect(db.searchMemories(["jwt"]).map((h) => h.id)).toEqual(["mem_auth"]);
+
+        db.save("memories", [{ ...css, content: "CSS variables, no JWT here" }]);
+        expect(db.searchMemories(["jwt"]).map((h) => h.id)).toEqual(["mem_css"]);
+        expect(db.count("memories")).toBe(1);
+        db.close();
+    });
+
+    it("ranks title matches above content matches", () => {
+        const db = new SqliteStorage(dir, silent);
+        db.load("memories");
+        db.save("memories", [
+            createMemoryEntry({ id: "mem_content", title: "Unrelated", content: "we touched the cache layer" }),
+            createMemoryEntry({ id: "mem_title", title: "Cache invalidation", content: "nothing here" }),
+        ]);
+        expect(db.searchMemories(["cache"]).map((h) => h.id)).toEqual(["mem_title", "mem_content"]);
+        db.close();
+    });
+
+    it("rebuilds the FTS index for memories stored without one", () => {
+        const db = new SqliteStorage(dir, silent);
+        db.load("memories");
+        db.save("memories", [createMemoryEntry({ id: "mem_docker", title: "Docker setup" })]);
+        // A database written before the index existed
+        (db as unknown as { db: { exec(sql: string): void } }).db.exec("DELETE FROM memories_fts");
+        db.close();
+
+        const reopened = new SqliteStorage(dir, silent);
+        expect(reopened.searchMemories(["docker"]).map((h) => h.id)).toEqual(["mem_docker"]);
+        reopened.close();
+    });
+
+    it("routes PluginState memory searches through the FTS index", () => {
+        const db = new SqliteStorage(dir, silent);
+        const config = { ...defaultConfig, features: { ...defaultConfig.features, verbose: false } };
+        const s = new PluginState(db, config, path.join(dir, "config.json"), null, "/tmp/project");
+        s.memories.push(
+            createMemoryEntry({ id: "mem_auth", title: "Authentication flow", content: "JWT refresh tokens" }),
+            createMemoryEntry({ id: "mem_css", title: "Theme colors", content: "CSS variables" }),
+        );
+        s.saveMemories();
+        const search = vi.spyOn(db, "searchMemories");
+
+        expect(s.search("memories", s.memories, "refreshing tokens").map((m) => m.id)).toEqual(["mem_auth"]);
+        expect(search).toHaveBeenCalledWith(["refreshing", "token"]);
+        // Out-of-scope candidates stay excluded
+        expect(s.search("memories", [s.memories[1]], "jwt")).toEqual([]);
+        db.close();
+    });
+
+    it("imports existing JSON data exactly once", () => {
+        const json = new LocalStorage(dir, silent);
+        json.save("memories", [createMemoryEntry({ id: "mem_legacy" })]);
+
+        const db = new SqliteStorage(dir, silent);
+        migrateJsonToSqlite(json, db, silent);
+        expect(db.load("memories").map((m) => m.id)).toEqual(["mem_legacy"]);
+
+        db.save("memories", []);
+        migrateJsonToSqlite(json, db, silent);
+        expect(db.load("memories")).toEqual([]);
+        db.close();
+    });
+});
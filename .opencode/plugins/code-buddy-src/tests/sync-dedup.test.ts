@@ -95,6 +95,40 @@ describe("saveMemoryWithSyncDedup", () => {
         expect(s.memories).toHaveLength(2);
     });
 
+    it("does not merge into a memory from another project", () => {
+        const existing = createMemoryEntry({
+            title: "snake game canvas rendering neon theme collision detection",
+            content: "snake game canvas rendering neon theme collision detection",
+            project: "/work/other-project",
+        });
+        const s = createMockState({ memories: [existing] });
+        const entry = createMemoryEntry({
+            title: "snake game canvas rendering neon theme collision detection",
+            content: "snake game canvas rendering neon theme collision detection",
+        });
+
+        const result = saveMemoryWithSyncDedup(s, entry);
+
+        expect(s.memories).toHaveLength(2);
+        expect(result.project).toBe(s.projectId);
+    });
+
+    it("merges into legacy memories that have no project", () => {
+        const existing = createMemoryEntry({
+            title: "snake game canvas rendering neon theme collision detection",
+            content: "snake game canvas rendering neon theme collision detection",
+        });
+        const s = createMockState({ memories: [existing] });
+        const entry = createMemoryEntry({
+            title: "snake game canvas rendering neon theme collision detection",
+            content: "snake game canvas rendering neon theme collision detection",
+        });
+
+        saveMemoryWithSyncDedup(s, entry);
+
+        expect(s.memories).toHaveLength(1);
+    });
+
     it("replaces title and content on merge", () => {
         const existing = createMemoryEntry({
             title: "snake game canvas rendering neon theme guide detailed",
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { threeWayMerge, toBaseline } from "../sync";
+import { LocalStorage } from "../storage";
+import { PluginState } from "../state";
+import { defaultConfig } from "../config";
+import { createMemoryEntry } from "./mock-state";
+
+describe("threeWayMerge", () => {
+    const a = createMemoryEntry({ id: "mem_a", title: "A", timestamp: "2026-01-01T00:00:00.000Z" });
+    const b = createMemoryEntry({ id: "mem_b", title: "B", timestamp: "2026-01-01T00:00:00.000Z" });
+
+    it("keeps records added on either side", () => {
+        const c = createMemoryEntry({ id: "mem_c" });
+        const d = createMemoryEntry({ id: "mem_d" });
+        const result = threeWayMerge(toBaseline([a]), [a, c], [a, d]);
+
+        expect(result.items.map((m) => m.id)).toEqual(["mem_a", "mem_d", "mem_c"]);
+        expect(result.conflicts).toEqual([]);
+    });
+
+    it("applies one-sided deletions and edits", () => {
+        const editedB = { ...b, title: "B2" };
+        const result = threeWayMerge(toBaseline([a, b]), [b], [a, editedB]);
+
+        expect(result.items).toEqual([editedB]);
+    });
+
+    it("keeps an edit over a concurrent deletion", () => {
+        const editedA = { ...a, title: "A2" };
+        expect(threeWayMerge(toBaseline([a]), [], [editedA]).items).toEqual([editedA]);
+        expect(threeWayMerge(toBaseline([a]), [editedA], []).items).toEqual([editedA]);
+    });
+
+    it("resolves conflicting edits by newest timestamp", () => {
+        const mine = { ...a, title: "mine", timestamp: "2026-01-02T00:00:00.000Z" };
+        const theirs = { ...a, title: "theirs", timestamp: "2026-01-03T00:00:00.000Z" };
+
+        const result = threeWayMerge(toBaseline([a]), [mine], [theirs]);
+        expect(result.items).toEqual([theirs]);
+        expect(result.conflicts).toEqual(["mem_a"]);
+        expect(threeWayMerge(toBaseline([a]), [theirs], [mine]).items).toEqual([theirs]);
+    });
+});
+
+describe("PluginState with a shared data directory", () => {
+    let dir: string;
+    const config = { ...defaultConfig, features: { ...defaultConfig.features, verbose: false } };
+
+    function open(): PluginState {
+        return new PluginState(new LocalStorage(dir, () => {}), config, path.join(dir, "config.json"), null, "/tmp/project");
+    }
+
+    beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-sync-")); });
+    afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("never drops records saved by another instance", () => {
+        const first = open();
+        const second = open();
+
+        first.memories.push(createMemoryEntry({ id: "mem_first" }));
+        first.saveMemories();
+        second.memories.push(createMemoryEntry({ id: "mem_second" }));
+        second.saveMemories();
+
+        expect(second.memories.map((m) => m.id)).toEqual(["mem_first", "mem_second"]);
+        expect(new LocalStorage(dir, () => {}).load("memories").map((m) => m.id)).toEqual(["mem_first", "mem_second"]);
+
+        first.reload("memories");
+        expect(first.memories.map((m) => m.id)).toEqual(["mem_first", "mem_second"]);
+    });
+
+    it("batches vector saves and writes vectors.json compactly", () => {
+        const state = open();
+        const vector = (id: string) => ({ id, model: "m", hash: "h", vector: [0.1, 0.2], updatedAt: "2026-01-01T00:00:00.000Z" });
+        state.vectors.push(vector("mem_a"));
+        state.saveVectors();
+        state.vectors.push(vector("mem_b"));
+        state.saveVectors();
+        expect(new LocalStorage(dir, () => {}).load("vectors")).toEqual([]);
+
+        state.flushVectors();
+        const raw = fs.readFileSync(path.join(dir, "vectors.json"), "utf-8");
+        expect(raw).not.toContain("\n");
+        expect(JSON.parse(raw).items.map((v: { id: string }) => v.id)).toEqual(["mem_a", "mem_b"]);
+    });
+
+    it("propagates deletions without resurrecting them", () => {
+        const first = open();
+        first.memories.push(createMemoryEntry({ id: "mem_a" }), createMemoryEntry({ id: "mem_b" }));
+        first.saveMemories();
+        const second = open();
+
+        second.memories = second.memories.filter((m) => m.id !== "mem_a");
+        second.saveMemories();
+        first.memories.push(createMemoryEntry({ id: "mem_c" }));
+        first.saveMemories();
+
+        expect(first.memories.map((m) => m.id)).toEqual(["mem_b", "mem_c"]);
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createMockState, createMemoryEntry } from "./mock-state";
+import { moveToTrash, restoreFromTrash, purgeTrash, purgeExpiredTrash, danglingRelations, TrashSaveError } from "../trash";
+import type { Entity, Relation } from "../types";
+import { createTools } from "../tools";
+import { inProject } from "../project";
+import { PluginState } from "../state";
+import { LocalStorage } from "../storage";
+import { defaultConfig } from "../config";
+
+describe("trash", () => {
+    const cleanup: string[] = [];
+    afterEach(() => { for (const dir of cleanup.splice(0)) fs.rmSync(dir, { recursive: true, force: true }); });
+
+    it("moves deleted records to the trash and restores them", () => {
+        const s = createMockState({ memories: [createMemoryEntry({ id: "mem_a" }), createMemoryEntry({ id: "mem_b" })] });
+
+        const trashed = moveToTrash(s, "memory", ["mem_a"], "ses_1");
+        expect(s.memories.map((m) => m.id)).toEqual(["mem_b"]);
+        expect(s.trash).toHaveLength(1);
+        expect(trashed[0]).toMatchObject({ type: "memory", sessionId: "ses_1", item: { id: "mem_a" } });
+
+        const result = restoreFromTrash(s, [trashed[0].id, "trash_missing"]);
+        expect(result.restored).toHaveLength(1);
+        expect(result.missing).toEqual(["trash_missing"]);
+        expect(s.memories.map((m) => m.id)).toEqual(["mem_b", "mem_a"]);
+        expect(s.trash).toEqual([]);
+    });
+
+    it("refuses to restore over a live record with the same id", () => {
+        const s = createMockState({ memories: [createMemoryEntry({ id: "mem_a" })] });
+        const [entry] = moveToTrash(s, "memory", ["mem_a"]);
+        s.memories.push(createMemoryEntry({ id: "mem_a", title: "re-created" }));
+
+        const result = restoreFromTrash(s, [entry.id]);
+        expect(result.conflicts).toHaveLength(1);
+        expect(s.trash).toHaveLength(1);
+        expect(s.memories.map((m) => m.title)).toEqual(["re-created"]);
+    });
+
+    it("purges selected, expired or all entries", () => {
+        const s = createMockState({ memories: ["a", "b", "c"].map((id) => createMemoryEntry({ id })) });
+        const entries = moveToTrash(s, "memory", ["a", "b", "c"]);
+        entries[0].deletedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+
+        expect(purgeExpiredTrash(s)).toBe(1);
+        expect(purgeTrash(s, [entries[1].id])).toBe(1);
+        expect(s.trash.map((e) => e.item.id)).toEqual(["c"]);
+        expect(purgeTrash(s)).toBe(1);
+        expect(s.trash).toEqual([]);
+    });
+
+    it("writes the trash before the collection and rolls back failed moves", () => {
+        const s = createMockState({ memories: [createMemoryEntry({ id: "mem_a" })] });
+        const order: string[] = [];
+        s.saveTrash = vi.fn(() => { order.push("trash"); return true; });
+        s.saveMemories = vi.fn(() => { order.push("memories"); return true; });
+        moveToTrash(s, "memory", ["mem_a"]);
+        expect(order).toEqual(["trash", "memories"]);
+
+        const t = createMockState({ memories: [createMemoryEntry({ id: "mem_b" })] });
+        t.saveTrash = vi.fn(() => false);
+        expect(() => moveToTrash(t, "memory", ["mem_b"])).toThrow(TrashSaveError);
+        expect(t.memories.map((m) => m.id)).toEqual(["mem_b"]);
+        expect(t.trash).toEqual([]);
+
+        t.saveTrash = vi.fn(() => true);
+        t.saveMemories = vi.fn(() => false);
+        expect(() => moveToTrash(t, "memory", ["mem_b"])).toThrow("nothing was deleted");
+        expect(t.memories.map((m) => m.id)).toEqual(["mem_b"]);
+        expect(t.trash).toEqual([]);
+    });
+
+    it("reports a failed save instead of success", async () => {
+        const s = createMockState({ memories: [createMemoryEntry({ id: "mem_a" })] });
+        const tools = createTools(s);
+        const ctx = { sessionID: "ses_a", messageID: "m", agent: "build" } as any;
+        const code = String(await tools.buddy_delete_memory.execute({ id: "mem_a" }, ctx)).match(/confirmCode: "(\w+)"/)?.[1];
+        s.saveTrash = vi.fn(() => false);
+
+        expect(await tools.buddy_delete_memory.execute({ confirmCode: code }, ctx)).toContain("❌ Could not save the trash");
+        expect(s.memories).toHaveLength(1);
+
+        s.saveTrash = vi.fn(() => true);
+        const [entry] = moveToTrash(s, "memory", ["mem_a"]);
+        s.saveMemories = vi.fn(() => false);
+        expect(await tools.buddy_trash.execute({ action: "restore", ids: [entry.id] }, ctx)).toContain("❌");
+        expect(s.memories).toEqual([]);
+        expect(s.trash).toHaveLength(1);
+    });
+
+    it("purges only the current project's trash unless global", async () => {
+        const s = createMockState({ memories: [
+            createMemoryEntry({ id: "mem_shop", project: "/tmp/test-project" }),
+            createMemoryEntry({ id: "mem_blog", project: "/work/blog" }),
+        ] });
+        s.inScope = ((items: Array<{ project?: string }>, global?: boolean) => (global ? items : inProject(items, s.projectId))) as typeof s.inScope;
+        moveToTrash(s, "memory", ["mem_shop", "mem_blog"]);
+        const tools = createTools(s);
+        const ctx = { sessionID: "ses_a", messageID: "m", agent: "build" } as any;
+
+        expect(await tools.buddy_trash.execute({ action: "purge" }, ctx)).toContain("Permanently deleted 1");
+        expect(s.trash.map((e) => e.item.id)).toEqual(["mem_blog"]);
+        expect(await tools.buddy_trash.execute({ action: "purge", global: true }, ctx)).toContain("Permanently deleted 1");
+        expect(s.trash).toEqual([]);
+    });
+
+    it("keeps purged entries in the pre-purge snapshot so they can be restored", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-buddy-trash-"));
+        cleanup.push(dir);
+        const config = { ...defaultConfig, features: { ...defaultConfig.features, verbose: false } };
+        const s = new PluginState(new LocalStorage(dir, () => {}), config, path.join(dir, "config.json"), null, "/tmp/project");
+        s.memories.push(createMemoryEntry({ id: "mem_a", project: "/tmp/project" }));
+        s.saveMemories();
+        const [entry] = moveToTrash(s, "memory", ["mem_a"]);
+        const tools = createTools(s);
+        const ctx = { sessionID: "ses_a", messageID: "m", agent: "build" } as any;
+
+        const purged = String(await tools.buddy_trash.execute({ action: "purge" }, ctx));
+        expect(s.trash).toEqual([]);
+        const snapshot = purged.match(/snapshot: "([^"]+)"/)?.[1] ?? "";
+        expect(String(await tools.buddy_backup.execute({ action: "diff", snapshot }, ctx))).toContain(entry.id);
+
+        expect(await tools.buddy_restore.execute({ snapshot, ids: [entry.id] }, ctx)).toContain("back in the trash");
+        expect(s.trash.map((e) => e.item.id)).toEqual(["mem_a"]);
+        expect(new LocalStorage(dir, () => {}).load("trash")).toHaveLength(1);
+    });
+
+    it("keys pending deletions by session", async () => {
+        const s = createMockState({ memories: [createMemoryEntry({ id: "mem_a" })] });
+        const tools = createTools(s);
+        const ctx = (sessionID: string) => ({ sessionID, messageID: "m", agent: "build" }) as any;
+
+        const preview = await tools.buddy_delete_memory.execute({ id: "mem_a" }, ctx("ses_a"));
+        const code = String(preview).match(/confirmCode: "(\w+)"/)?.[1];
+        expect(code).toBeTruthy();
+
+        expect(await tools.buddy_delete_memory.execute({ confirmCode: code }, ctx("ses_b"))).toContain("No pending deletion");
+        expect(s.memories).toHaveLength(1);
+
+        expect(await tools.buddy_delete_memory.execute({ confirmCode: code }, ctx("ses_a"))).toContain("Moved to Trash");
+        expect(s.memories).toHaveLength(0);
+        expect(s.trash).toHaveLength(1);
+    });
+
+    it("deletes an entity together with its relations", async () => {
+        const s = createMockState();
+        const entity = (id: string, name: string): Entity => ({ id, name, type: "component", observations: [], tags: [], createdAt: "2026-01-01T00:00:00.000Z" });
+        const relation = (id: string, from: string, to: string): Relation => ({ id, from, to, type: "uses", createdAt: "2026-01-01T00:00:00.000Z" });
+        s.entities.push(entity("ent_a", "Auth"), entity("ent_b", "Db"), entity("ent_c", "Cache"));
+        s.relations.push(relation("rel_1", "Auth", "Db"), relation("rel_2", "Cache", "Db"), relation("rel_3", "Cache", "Auth"));
+
+        expect(danglingRelations(s, ["ent_a"])).toEqual(["rel_1", "rel_3"]);
+
+        const tools = createTools(s);
+        const ctx = { sessionID: "ses_a", messageID: "m", agent: "build" } as any;
+        const preview = String(await tools.buddy_delete.execute({ kind: "entity", query: "auth" }, ctx));
+        expect(preview).toContain("Relations deleted with them (2)");
+
+        const code = preview.match(/confirmCode: "(\w+)"/)?.[1];
+        await tools.buddy_delete.execute({ confirmCode: code }, ctx);
+        expect(s.entities.map((e) => e.id)).toEqual(["ent_b", "ent_c"]);
+        expect(s.relations.map((r) => r.id)).toEqual(["rel_2"]);
+        expect(s.trash.map((e) => e.type)).toEqual(["entity", "relation", "relation"]);
+    });
+
+    it("selects mistakes by error type", async () => {
+        const s = createMockState();
+        s.mistakes.push({ id: "mis_1", timestamp: "2026-01-01T00:00:00.000Z", action: "bogus", errorType: "other", userCorrection: "", correctMethod: "", impact: "", preventionMethod: "" });
+        const tools = createTools(s);
+
+        expect(await tools.buddy_delete.execute({ kind: "mistake", type: "other" }, { sessionID: "x" } as any)).toContain("mis_1");
+        expect(await tools.buddy_delete.execute({ kind: "bogus", id: "x" }, { sessionID: "x" } as any)).toContain("Please specify kind");
+    });
+});
@@ -1,26 +1,134 @@
 /**
- * All 21 tool definitions for Code Buddy.
+ * All tool definitions for Code Buddy.
  */
 
 import { tool } from "@opencode-ai/plugin";
+import type { ToolContext } from "@opencode-ai/plugin";
 import type {
     MemoryType, MemoryCategory, MemoryEntry,
-    EntityType, Entity, Relation, ErrorType, MistakeRecord,
+    EntityType, Entity, Relation, ErrorType, MistakeRecord, DeletableType, TrashEntry,
 } from "./types";
 import { MEMORY_TYPE_CATEGORY, VALID_MEMORY_TYPES } from "./types";
 import {
-    generateId, generateConfirmCode, searchText,
+    generateId, generateConfirmCode, recordLabel,
     getMemoryCategory, detectTaskType, estimateComplexity,
     formatDate, formatDateTime, nowTimestamp,
-    sanitizeForInjection,
+    sanitizeForInjection, formatProvenance,
     TASK_STEPS, WORKFLOW_STEPS, WORKFLOW_PROGRESS,
 } from "./helpers";
 import {
     resolveProvider, getLLMStatus, askAI,
     addMemoryWithDedup, autoGenerateTags,
 } from "./llm";
+import { projectLabel } from "./project";
+import { listSnapshots, loadSnapshot, diffSnapshot, SNAPSHOT_COLLECTIONS } from "./snapshots";
+import type { SnapshotCollection } from "./snapshots";
+import { getRevisions, recordRevision, diffRevisions, renderRevision } from "./revisions";
+import { unifiedDiff } from "./diff";
+import { moveToTrash, restoreFromTrash, purgeTrash, daysUntilPurge, danglingRelations, live, TrashSaveError } from "./trash";
+import type { SearchableCollection } from "./search";
+import { parseQuery, runMemoryQuery, queryTerms, ParseError, QUERY_SYNTAX_HELP } from "./query";
+import { extractSnippet, DETAIL_LEVELS, SNIPPET_CHARS } from "./snippet";
+import type { DetailLevel } from "./snippet";
+import { searchAll, UNIFIED_GROUPS } from "./search-all";
+import type { UnifiedGroup } from "./search-all";
+import { giveFeedback, noteRecalled, guideStats, leastUseful } from "./feedback";
 import type { PluginState } from "./state";
 
+// ============================================
+// Query helper (shared by buddy_remember, buddy_remember_by_category, buddy_delete_memory)
+// ============================================
+
+const QUERY_ARG_HELP = "Search query. Supports tag:x type:bugfix category:solution source:auto-observer file:auth.ts branch:main "
+    + "session:id after:2026-01-01 before:90d, -negation, \"exact phrase\" and OR";
+
+const DETAIL_ARG_HELP = "Output size: compact (title + short matching snippet), normal (metadata + matching snippet) or full (whole content)";
+
+/**
+ * Run a structured memory query, returning the matches and the terms to
+ * highlight — or an error message when the query doesn't parse.
+ */
+async function queryMemories(s: PluginState, candidates: MemoryEntry[], query: string): Promise<{ memories: MemoryEntry[]; terms: string[] } | string> {
+    try {
+        const parsed = parseQuery(query);
+        return { memories: await runMemoryQuery(s, candidates, parsed), terms: queryTerms(parsed) };
+    } catch (e) {
+        if (e instanceof ParseError) return `❌ Invalid query: ${e.message}\n\n${QUERY_SYNTAX_HELP}`;
+        throw e;
+    }
+}
+
+/** Memory content at a detail level: the best-matching snippet, or the whole text (capped) for "full". */
+function memoryContent(m: MemoryEntry, detail: DetailLevel, terms: string[]): string {
+    const content = sanitizeForInjection(m.content, m.content.length);
+    return detail === "full" ? content.substring(0, 2000) : extractSnippet(content, terms, SNIPPET_CHARS[detail]);
+}
+
+// ============================================
+// Deletion helpers (shared by buddy_delete and buddy_delete_memory)
+// ============================================
+
+const DELETABLE_TYPES: DeletableType[] = ["memory", "entity", "relation", "mistake"];
+
+/** Collection searched by `query` for each deletable kind. */
+const DELETE_COLLECTION: Record<DeletableType, SearchableCollection> = {
+    memory: "memories",
+    entity: "entities",
+    relation: "relations",
+    mistake: "mistakes",
+};
+
+/** Field matched by the `type` selector, per deletable kind. */
+const DELETE_TYPE_FIELD: Record<DeletableType, string> = {
+    memory: "type",
+    entity: "type",
+    relation: "type",
+    mistake: "errorType",
+};
+
+/** Trash entries a pre-purge snapshot kept that are no longer in the trash. */
+function purgedTrash(s: PluginState, purged: Array<{ id: string }>): TrashEntry[] {
+    const inTrash = new Set(s.trash.map((e) => e.id));
+    return (purged as TrashEntry[]).filter((e) => !inTrash.has(e.id));
+}
+
+/** Step 2 of a two-step deletion: check the session's confirm code and move the items to the trash. */
+function confirmDeletion(s: PluginState, sessionKey: string, confirmCode: string, sessionId?: string): string {
+    const pending = s.pendingDeletions.get(sessionKey);
+    if (!pending) {
+        return `❌ No pending deletion found for this session. Please first call buddy_delete (or buddy_delete_memory) to select items to delete.`;
+    }
+    if (confirmCode !== pending.confirmCode) {
+        return `❌ Invalid confirmation code.\n\nExpected: \`${pending.confirmCode}\`\nReceived: \`${confirmCode}\`\n\nPlease use the exact code provided.`;
+    }
+    if (Date.now() - new Date(pending.timestamp).getTime() > 5 * 60 * 1000) {
+        s.pendingDeletions.delete(sessionKey);
+        return `❌ Deletion request expired (5 minute timeout). Please start over.`;
+    }
+
+    s.pendingDeletions.delete(sessionKey);
+    let trashed: TrashEntry[];
+    try {
+        trashed = moveToTrash(s, pending.type, pending.ids, sessionId);
+    } catch (e) {
+        if (e instanceof TrashSaveError) return `❌ ${e.message}. Please try again.`;
+        throw e;
+    }
+    let cascaded: TrashEntry[] = [];
+    let cascadeError = "";
+    try {
+        if (pending.cascadeRelationIds?.length) cascaded = moveToTrash(s, "relation", pending.cascadeRelationIds, sessionId);
+    } catch (e) {
+        if (!(e instanceof TrashSaveError)) throw e;
+        cascadeError = `\n\n⚠️ ${e.message}: their relations were kept.`;
+    }
+
+    let output = `## 🗑️ Moved to Trash\n\n**Deleted**: ${trashed.length} ${pending.type}(s)${cascaded.length ? ` + ${cascaded.length} relation(s)` : ""}\n\n### Deleted Items\n`;
+    output += [...trashed, ...cascaded].map((e) => `- ${sanitizeForInjection(recordLabel(e.item), 100)} (${e.type}) — trash id \`${e.id}\``).join("\n");
+    output += `\n\n♻️ Undo with \`buddy_trash(action: "restore", ids: [...])\`. Trash is purged after ${s.config.storage.trashRetentionDays} days.`;
+    return output + cascadeError;
+}
+
 // ============================================
 // Factory — returns an object of all tools
 // ============================================
@@ -85,6 +193,11 @@ export function createTools(s: PluginState) {
                     `| fullAuto | ${b(h.fullAuto)} |`,
                     `| autoErrorDetect | ${b(h.autoErrorDetect)} |`,
                     `| requireEditForRecord | ${b(h.requireEditForRecord)} |`,
+                    `\n### Storage`,
+                    `| Setting | Value |\n|---------|-------|`,
+                    `| dataDir | ${s.storage.getBaseDir()} |`,
+                    `| scope | ${s.config.storage.scope} |`,
+                    `| project | ${s.projectId} |`,
                     `\n### Config File`,
                     `To change settings, edit: \`${s.configPath}\``,
                     `Changes take effect on next session restart.`,
@@ -195,10 +308,12 @@ export function createTools(s: PluginState) {
 ## 🧠 Memory Commands
 | Command | Description |
 |---------|-------------|
+| \`buddy_search(query)\` | Search memories, entities, relations, mistakes and logs at once |
 | \`buddy_remember(query)\` | Search memories |
 | \`buddy_remember_recent(limit)\` | Get recent memories |
 | \`buddy_remember_stats()\` | Memory statistics |
 | \`buddy_add_memory(title, content, type)\` | Add memory |
+| \`buddy_feedback(memoryId, helpful)\` | Rate an injected guide; \`action: "report"\` lists cleanup candidates |
 
 ## 🔗 Knowledge Graph
 | Command | Description |
@@ -226,6 +341,22 @@ export function createTools(s: PluginState) {
 | \`buddy_analyze_code(code)\` | AI code analysis |
 | \`buddy_suggest_improvements(context)\` | AI improvement suggestions |
 
+## 💾 Backups
+| Command | Description |
+|---------|-------------|
+| \`buddy_delete(kind, id, query, type)\` | Delete memories, entities, relations or mistakes |
+| \`buddy_trash(action, ids)\` | List, restore or purge deleted items |
+| \`buddy_backup(action, snapshot)\` | List, create or diff data snapshots |
+| \`buddy_restore(snapshot, ids)\` | Restore a snapshot, or single items from it |
+
+## ✏️ Editing & History
+| Command | Description |
+|---------|-------------|
+| \`buddy_update_memory(id, title, content, type, tags)\` | Edit a memory |
+| \`buddy_memory_history(id)\` | List revisions |
+| \`buddy_memory_diff(id, from, to)\` | Diff two revisions |
+| \`buddy_revert_memory(id, revision)\` | Revert to a revision |
+
 ## 📋 Diagnostics
 | Command | Description |
 |---------|-------------|
@@ -247,7 +378,7 @@ export function createTools(s: PluginState) {
                 execute: tool.schema.boolean().optional().describe("Set true to execute the task using AI (default: false)"),
                 context: tool.schema.string().optional().describe("Additional context (code, file paths, etc.)"),
             },
-            async execute(args: any) {
+            async execute(args: any, context?: ToolContext) {
                 const taskType = detectTaskType(args.task);
                 const complexity = estimateComplexity(args.task);
 
@@ -256,6 +387,7 @@ export function createTools(s: PluginState) {
                     title: `Task: ${args.task.substring(0, 50)}...`,
                     content: args.task + (args.context ? `\n\nContext: ${args.context}` : ""),
                     tags: ["buddy-do", taskType, complexity],
+                    provenance: s.provenance("buddy_do", { sessionId: context?.sessionID }),
                 }, false);
 
                 s.session.tasksCompleted++;
@@ -303,7 +435,7 @@ Be concise but thorough. If this involves code, provide the actual code.`);
                 learnings: tool.schema.string().optional().describe("Key learnings or insights from this task"),
                 type: tool.schema.string().optional().describe("Memory type: decision, bugfix, lesson, pattern, feature, note (default: feature)"),
             },
-            async execute(args: any) {
+            async execute(args: any, context?: ToolContext) {
                 const memType = (VALID_MEMORY_TYPES.includes(args.type as MemoryType) ? args.type : "feature") as MemoryType;
                 const category = MEMORY_TYPE_CATEGORY[memType] || "knowledge";
 
@@ -316,6 +448,7 @@ Be concise but thorough. If this involves code, provide the actual code.`);
                     title: `Done: ${args.task.substring(0, 50)}${args.task.length > 50 ? "..." : ""}`,
                     content,
                     tags: ["buddy-done", category, memType],
+                    provenance: s.provenance("buddy_done", { sessionId: context?.sessionID }),
                 }, false);
 
                 let emoji = "✅";
@@ -337,6 +470,61 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             },
         }),
 
+        // ========================================
+        // SEARCH
+        // ========================================
+
+        buddy_search: tool({
+            description: "Search memories, entities, relations, mistakes and plugin logs at once. Matching entities also surface their relations and the memories that mention them",
+            args: {
+                query: tool.schema.string().describe("Search text"),
+                limit: tool.schema.number().optional().describe("Max direct hits per group (default: 5)"),
+                only: tool.schema.array(tool.schema.string()).optional().describe("Restrict to groups: memories, entities, relations, mistakes, logs"),
+                global: tool.schema.boolean().optional().describe("Search every project, not just the current one"),
+            },
+            async execute(args: any) {
+                const groups = (args.only || []) as string[];
+                const unknown = groups.filter((g) => !(UNIFIED_GROUPS as readonly string[]).includes(g));
+                if (unknown.length > 0) return `❌ Unknown group(s): ${unknown.join(", ")}. Use: ${UNIFIED_GROUPS.join(", ")}`;
+
+                const r = await searchAll(s, args.query, { global: args.global, limit: args.limit, groups: groups as UnifiedGroup[] });
+                const safeQuery = sanitizeForInjection(args.query, 200);
+                const total = r.memories.length + r.entities.length + r.relations.length + r.mistakes.length + r.logs.length;
+                if (total === 0) return `🔍 Nothing found for "${safeQuery}"`;
+
+                const via = (reason?: string) => (reason ? ` ↪ _${sanitizeForInjection(reason, 150)}_` : "");
+                let msg = `## 🔍 Everything about "${safeQuery}" (${total})\n`;
+                if (r.memories.length > 0) {
+                    msg += `\n### 🧠 Memories (${r.memories.length})\n`;
+                    for (const { item: m, via: reason } of r.memories) {
+                        msg += `- **${sanitizeForInjection(m.title, 200)}** (${m.type}, ${formatDate(m.timestamp)}) \`${m.id}\`${via(reason)}\n  ${memoryContent(m, "compact", [args.query])}\n`;
+                    }
+                }
+                if (r.entities.length > 0) {
+                    msg += `\n### 🔗 Entities (${r.entities.length})\n`;
+                    for (const { item: e, via: reason } of r.entities) {
+                        msg += `- **${sanitizeForInjection(e.name, 200)}** (${e.type}) \`${e.id}\`${via(reason)}\n  ${e.observations.slice(0, 2).map((o) => sanitizeForInjection(o, 200)).join("; ")}\n`;
+                    }
+                }
+                if (r.relations.length > 0) {
+                    msg += `\n### ↔️ Relations (${r.relations.length})\n`;
+                    for (const { item: rel, via: reason } of r.relations) {
+                        msg += `- ${sanitizeForInjection(rel.from, 100)} --[${sanitizeForInjection(rel.type, 50)}]--> ${sanitizeForInjection(rel.to, 100)} \`${rel.id}\`${rel.description ? ` — ${sanitizeForInjection(rel.description, 150)}` : ""}${via(reason)}\n`;
+                    }
+                }
+                if (r.mistakes.length > 0) {
+                    msg += `\n### 📝 Mistakes (${r.mistakes.length})\n`;
+                    for (const m of r.mistakes) {
+                        msg += `- **${sanitizeForInjection(m.action, 150)}** (${m.errorType}, ${formatDate(m.timestamp)}) \`${m.id}\`\n  ✅ ${sanitizeForInjection(m.correctMethod, 200)}\n`;
+                    }
+                }
+                if (r.logs.length > 0) {
+                    msg += `\n### 📋 Logs (${r.logs.length})\n\`\`\`\n${r.logs.map((l) => sanitizeForInjection(l, 300)).join("\n")}\n\`\`\`\n`;
+                }
+                return msg;
+            },
+        }),
+
         // ========================================
         // MEMORY
         // ========================================
@@ -344,21 +532,50 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
         buddy_remember: tool({
             description: "Search project memories",
             args: {
-                query: tool.schema.string().describe("Search query"),
+                query: tool.schema.string().describe(QUERY_ARG_HELP),
                 limit: tool.schema.number().optional().describe("Max results (default: 5)"),
                 type: tool.schema.string().optional().describe("Filter by type"),
+                global: tool.schema.boolean().optional().describe("Search memories from every project, not just the current one"),
+                source: tool.schema.string().optional().describe("Filter by origin: buddy_add_memory, buddy_do, buddy_done, buddy_ask_ai, auto-observer, sync-flush"),
+                session: tool.schema.string().optional().describe("Filter by the session ID that produced the memory"),
+                file: tool.schema.string().optional().describe("Filter by a file touched when the memory was produced (substring match)"),
+                branch: tool.schema.string().optional().describe("Filter by git branch"),
+                detail: tool.schema.string().optional().describe(`${DETAIL_ARG_HELP}. Default: normal`),
             },
-            async execute(args: any) {
-                let results = searchText(s.memories, args.query, ["title", "content", "tags"]);
+            async execute(args: any, context?: ToolContext) {
+                const detail: DetailLevel = args.detail || "normal";
+                if (!DETAIL_LEVELS.includes(detail)) return `❌ Invalid detail: "${args.detail}". Use ${DETAIL_LEVELS.join(", ")}.`;
+
+                const found = await queryMemories(s, s.inScope(s.memories, args.global), args.query);
+                if (typeof found === "string") return found;
+                let results = found.memories;
                 if (args.type) results = results.filter((m) => m.type === args.type);
+                if (args.source) results = results.filter((m) => m.provenance?.source === args.source);
+                if (args.session) results = results.filter((m) => m.provenance?.sessionId === args.session);
+                if (args.file) results = results.filter((m) => m.provenance?.files?.some((f) => f.includes(args.file)));
+                if (args.branch) results = results.filter((m) => m.provenance?.gitBranch === args.branch);
                 results = results.slice(0, args.limit || 5);
 
                 const safeQuery = sanitizeForInjection(args.query, 200);
                 if (results.length === 0) return `🔍 No memories found for "${safeQuery}"`;
+                // Recalling a guide this session was given suggests it was useful
+                if (context?.sessionID) noteRecalled(s, context.sessionID, results.map((m) => m.id));
 
                 let msg = `## 🔍 Search Results for "${safeQuery}" (${results.length})\n\n`;
+                if (detail === "compact") {
+                    for (const m of results) {
+                        msg += `- **${sanitizeForInjection(m.title, 200)}** (${m.type}, ${formatDate(m.timestamp)}) \`${m.id}\`\n  ${memoryContent(m, detail, found.terms)}\n`;
+                    }
+                    return msg;
+                }
                 for (const m of results) {
-                    msg += `### ${sanitizeForInjection(m.title, 200)}\n- **Type**: ${m.type}\n- **Date**: ${formatDate(m.timestamp)}\n- **Tags**: ${m.tags.join(", ")}\n\n${sanitizeForInjection(m.content, 2000)}\n\n---\n\n`;
+                    const projectLine = args.global ? `\n- **Project**: ${projectLabel(m.project)}` : "";
+                    let sourceLine = "";
+                    if (m.provenance) {
+                        sourceLine = `\n- **Source**: ${sanitizeForInjection(formatProvenance(m.provenance), 200)}`;
+                        if (m.provenance.files?.length) sourceLine += `\n- **Files**: ${m.provenance.files.slice(0, 5).map((f) => sanitizeForInjection(f, 120)).join(", ")}${m.provenance.files.length > 5 ? ` (+${m.provenance.files.length - 5} more)` : ""}`;
+                    }
+                    msg += `### ${sanitizeForInjection(m.title, 200)}\n- **Type**: ${m.type} | **ID**: \`${m.id}\`\n- **Date**: ${formatDate(m.timestamp)}\n- **Tags**: ${m.tags.join(", ")}${projectLine}${sourceLine}\n\n${memoryContent(m, detail, found.terms)}\n\n---\n\n`;
                 }
                 return msg;
             },
@@ -368,9 +585,10 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             description: "Get recent memories",
             args: {
                 limit: tool.schema.number().optional().describe("Number of results (default: 5)"),
+                global: tool.schema.boolean().optional().describe("Include memories from every project"),
             },
             async execute(args: any) {
-                const recent = [...s.memories].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, args.limit || 5);
+                const recent = [...s.inScope(s.memories, args.global)].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, args.limit || 5);
                 if (recent.length === 0) return "📜 No memories yet. Use `buddy_do` to start!";
 
                 let msg = `## 📜 Recent Memories (${recent.length})\n\n`;
@@ -386,17 +604,29 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             args: {
                 category: tool.schema.string().describe("Category: 'solution' (decision, bugfix, lesson) or 'knowledge' (pattern, feature, note)"),
                 limit: tool.schema.number().optional().describe("Number of results (default: 10)"),
-                query: tool.schema.string().optional().describe("Optional search query within category"),
+                query: tool.schema.string().optional().describe(`Optional search query within category. ${QUERY_ARG_HELP}`),
+                global: tool.schema.boolean().optional().describe("Include memories from every project"),
+                detail: tool.schema.string().optional().describe(`${DETAIL_ARG_HELP}. Default: compact`),
             },
             async execute(args: any) {
+                const detail: DetailLevel = args.detail || "compact";
+                if (!DETAIL_LEVELS.includes(detail)) return `❌ Invalid detail: "${args.detail}". Use ${DETAIL_LEVELS.join(", ")}.`;
                 const cat = args.category.toLowerCase() as MemoryCategory;
                 if (!["solution", "knowledge"].includes(cat)) {
                     return `❌ Invalid category: "${args.category}". Use 'solution' or 'knowledge'.`;
                 }
 
-                let filtered = cat === "solution" ? s.getSolutionMemories() : s.getKnowledgeMemories();
-                if (args.query) filtered = searchText(filtered, args.query, ["title", "content", "tags"]);
-                filtered = filtered.sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, args.limit || 10);
+                let filtered = cat === "solution" ? s.getSolutionMemories(args.global) : s.getKnowledgeMemories(args.global);
+                let terms: string[] = [];
+                if (args.query) {
+                    const found = await queryMemories(s, filtered, args.query);
+                    if (typeof found === "string") return found;
+                    filtered = found.memories;
+                    terms = found.terms;
+                } else {
+                    filtered = filtered.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+                }
+                filtered = filtered.slice(0, args.limit || 10);
 
                 if (filtered.length === 0) {
                     const safeQuery = args.query ? sanitizeForInjection(args.query, 200) : "";
@@ -406,7 +636,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                 const typeLabels = cat === "solution" ? "(decision, bugfix, lesson)" : "(pattern, feature, note)";
                 let output = `## 📂 ${cat.charAt(0).toUpperCase() + cat.slice(1)} Memories ${typeLabels}\n\n**Found**: ${filtered.length} item(s)\n\n`;
                 for (const m of filtered) {
-                    output += `### ${sanitizeForInjection(m.title, 200)}\n- **Type**: ${m.type} | **ID**: \`${m.id}\`\n- **Date**: ${formatDateTime(m.timestamp)}\n- **Content**: ${sanitizeForInjection(m.content, 150)}${m.content.length > 150 ? "..." : ""}\n\n`;
+                    output += `### ${sanitizeForInjection(m.title, 200)}\n- **Type**: ${m.type} | **ID**: \`${m.id}\`\n- **Date**: ${formatDateTime(m.timestamp)}\n- **Content**: ${memoryContent(m, detail, terms)}\n\n`;
                 }
                 return output;
             },
@@ -416,24 +646,27 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             description: "Get memory and knowledge graph statistics",
             args: {},
             async execute() {
+                const memories = s.inScope(s.memories);
                 const byType: Record<string, number> = {};
-                for (const m of s.memories) byType[m.type] = (byType[m.type] || 0) + 1;
+                for (const m of memories) byType[m.type] = (byType[m.type] || 0) + 1;
 
                 return `## 📊 Statistics
 
+**Project**: ${projectLabel(s.projectId)} (\`${s.projectId}\`)
+
 ### 🧠 Memories
-- **Total**: ${s.memories.length}
+- **Total**: ${memories.length} (${s.memories.length} across all projects)
 - **By Category**:
   - 🔧 Solution: ${s.getSolutionMemories().length} (decision, bugfix, lesson)
   - 📚 Knowledge: ${s.getKnowledgeMemories().length} (pattern, feature, note)
 - **By Type**: ${Object.entries(byType).map(([t, c]) => `${t}(${c})`).join(", ") || "none"}
 
 ### 🔗 Knowledge Graph
-- **Entities**: ${s.entities.length}
-- **Relations**: ${s.relations.length}
+- **Entities**: ${s.inScope(s.entities).length}
+- **Relations**: ${s.inScope(s.relations).length}
 
 ### 📝 Error Learning
-- **Mistakes Recorded**: ${s.mistakes.length}
+- **Mistakes Recorded**: ${s.inScope(s.mistakes).length}
 
 ### 💚 Session
 - **Tasks Completed**: ${s.session.tasksCompleted}
@@ -454,7 +687,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                 tags: tool.schema.array(tool.schema.string()).optional().describe("Tags"),
                 forceSave: tool.schema.boolean().optional().describe("Set true to save even if similar memory exists"),
             },
-            async execute(args: any) {
+            async execute(args: any, context?: ToolContext) {
                 const tags = (args.tags && args.tags.length > 0)
                     ? args.tags
                     : await autoGenerateTags(s, args.title, args.content, args.type);
@@ -464,6 +697,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                     title: args.title,
                     content: args.content,
                     tags,
+                    provenance: s.provenance("buddy_add_memory", { sessionId: context?.sessionID }),
                 }, args.forceSave || false);
 
                 if (result.action === "created") {
@@ -482,69 +716,159 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             },
         }),
 
+        buddy_update_memory: tool({
+            description: "Edit a memory's title, content, type or tags. Every edit is kept as a revision (see buddy_memory_history)",
+            args: {
+                id: tool.schema.string().describe("Memory ID"),
+                title: tool.schema.string().optional().describe("New title"),
+                content: tool.schema.string().optional().describe("New content"),
+                type: tool.schema.string().optional().describe("New type: decision, pattern, bugfix, lesson, feature, note"),
+                tags: tool.schema.array(tool.schema.string()).optional().describe("Replacement tag list"),
+            },
+            async execute(args: any, context?: ToolContext) {
+                const memory = s.memories.find((m) => m.id === args.id);
+                if (!memory) return `❌ Memory not found: \`${args.id}\``;
+                if (args.type && !VALID_MEMORY_TYPES.includes(args.type as MemoryType)) {
+                    return `❌ Invalid type: ${args.type}. Valid types: ${VALID_MEMORY_TYPES.join(", ")}`;
+                }
+
+                const before = { ...memory, tags: [...memory.tags] };
+                if (args.title !== undefined) memory.title = args.title;
+                if (args.content !== undefined) memory.content = args.content;
+                if (args.type) {
+                    memory.type = args.type as MemoryType;
+                    memory.category = MEMORY_TYPE_CATEGORY[memory.type];
+                }
+                if (args.tags) memory.tags = args.tags;
+
+                const diff = unifiedDiff(renderRevision(before), renderRevision(memory));
+                if (!diff) return `ℹ️ No changes — memory \`${memory.id}\` already matches.`;
+
+                memory.timestamp = nowTimestamp();
+                s.saveMemories();
+                const rev = recordRevision(s, before, memory, "update", context?.agent || "user");
+                return `## ✏️ Memory Updated (revision ${rev.revision})\n\n**${memory.title}** (\`${memory.id}\`)\n\n\`\`\`diff\n${diff}\n\`\`\``;
+            },
+        }),
+
+        buddy_memory_history: tool({
+            description: "List the revision history of a memory (edits, AI/dedup merges, reverts)",
+            args: {
+                id: tool.schema.string().describe("Memory ID"),
+            },
+            async execute(args: any) {
+                const revisions = getRevisions(s, args.id);
+                const memory = s.memories.find((m) => m.id === args.id);
+                if (revisions.length === 0) {
+                    return memory
+                        ? `📜 **${memory.title}** has no recorded revisions — it is unchanged since it was created.`
+                        : `❌ No memory or revisions found for \`${args.id}\``;
+                }
+
+                let output = `## 📜 History: ${sanitizeForInjection(memory?.title ?? revisions[revisions.length - 1].title, 80)}${memory ? "" : " _(deleted)_"}\n\n`;
+                output += `| Rev | Date | Source | Author | Title |\n|-----|------|--------|--------|-------|\n`;
+                for (const r of revisions) {
+                    output += `| ${r.revision} | ${formatDateTime(r.timestamp)} | ${r.source} | ${r.author} | ${sanitizeForInjection(r.title, 60)} |\n`;
+                }
+                output += `\nCompare with \`buddy_memory_diff(id: "${args.id}", from: 1)\`, roll back with \`buddy_revert_memory(id: "${args.id}", revision: N)\`.`;
+                return output;
+            },
+        }),
+
+        buddy_memory_diff: tool({
+            description: "Show a unified diff between two revisions of a memory (defaults: previous → latest)",
+            args: {
+                id: tool.schema.string().describe("Memory ID"),
+                from: tool.schema.number().optional().describe("Older revision number (default: the one before 'to')"),
+                to: tool.schema.number().optional().describe("Newer revision number (default: latest)"),
+            },
+            async execute(args: any) {
+                const revisions = getRevisions(s, args.id);
+                if (revisions.length < 2) return `📜 Memory \`${args.id}\` has no changes to compare.`;
+
+                const to = args.to !== undefined ? revisions.find((r) => r.revision === args.to) : revisions[revisions.length - 1];
+                if (!to) return `❌ Revision ${args.to} not found. Available: ${revisions.map((r) => r.revision).join(", ")}`;
+                const from = args.from !== undefined
+                    ? revisions.find((r) => r.revision === args.from)
+                    : [...revisions].reverse().find((r) => r.revision < to.revision);
+                if (!from) return `❌ Revision ${args.from ?? "before " + to.revision} not found. Available: ${revisions.map((r) => r.revision).join(", ")}`;
+
+                const diff = diffRevisions(from, to);
+                if (!diff) return `ℹ️ Revisions ${from.revision} and ${to.revision} are identical.`;
+                return `## 🔍 Revision ${from.revision} → ${to.revision}\n\n\`\`\`diff\n${diff}\n\`\`\``;
+            },
+        }),
+
+        buddy_revert_memory: tool({
+            description: "Revert a memory to an earlier revision. The revert itself is recorded as a new revision",
+            args: {
+                id: tool.schema.string().describe("Memory ID"),
+                revision: tool.schema.number().describe("Revision number to restore (see buddy_memory_history)"),
+            },
+            async execute(args: any, context?: ToolContext) {
+                const memory = s.memories.find((m) => m.id === args.id);
+                if (!memory) return `❌ Memory not found: \`${args.id}\``;
+                const target = getRevisions(s, args.id).find((r) => r.revision === args.revision);
+                if (!target) return `❌ Revision ${args.revision} not found. Use \`buddy_memory_history(id: "${args.id}")\`.`;
+
+                const before = { ...memory, tags: [...memory.tags] };
+                memory.title = target.title;
+                memory.content = target.content;
+                memory.type = target.type;
+                memory.category = MEMORY_TYPE_CATEGORY[target.type];
+                memory.tags = [...target.tags];
+                memory.timestamp = nowTimestamp();
+                s.saveMemories();
+                const rev = recordRevision(s, before, memory, "revert", context?.agent || "user");
+                return `## ↩️ Reverted to revision ${target.revision}\n\n**${memory.title}** (\`${memory.id}\`) — recorded as revision ${rev.revision}.`;
+            },
+        }),
+
         buddy_delete_memory: tool({
             description: "Delete memories with two-step confirmation. First call shows what will be deleted, second call with confirmCode executes deletion",
             args: {
-                query: tool.schema.string().optional().describe("Search query to find memories to delete"),
+                query: tool.schema.string().optional().describe(`Query selecting memories to delete, e.g. "tag:auto-observed before:90d". ${QUERY_ARG_HELP}`),
                 id: tool.schema.string().optional().describe("Specific memory ID to delete"),
                 type: tool.schema.string().optional().describe("Delete all memories of this type"),
+                global: tool.schema.boolean().optional().describe("Select from every project, not just the current one"),
                 confirmCode: tool.schema.string().optional().describe("Confirmation code from step 1 to execute deletion"),
             },
-            async execute(args: any) {
-                // Step 2: Execute
-                if (args.confirmCode) {
-                    if (!s.pendingDeletion) {
-                        return `❌ No pending deletion found. Please first call buddy_delete_memory with query, id, or type to select memories to delete.`;
-                    }
-                    if (args.confirmCode !== s.pendingDeletion.confirmCode) {
-                        return `❌ Invalid confirmation code.\n\nExpected: \`${s.pendingDeletion.confirmCode}\`\nReceived: \`${args.confirmCode}\`\n\nPlease use the exact code provided.`;
-                    }
-                    if (Date.now() - new Date(s.pendingDeletion.timestamp).getTime() > 5 * 60 * 1000) {
-                        s.pendingDeletion = null;
-                        return `❌ Deletion request expired (5 minute timeout). Please start over.`;
-                    }
-
-                    const deletedCount = s.pendingDeletion.ids.length;
-                    const deletedItems = s.pendingDeletion.items;
-                    const idSet = new Set(s.pendingDeletion.ids);
-
-                    if (s.pendingDeletion.type === "memory") { s.memories = s.memories.filter((m) => !idSet.has(m.id)); s.saveMemories(); }
-                    else if (s.pendingDeletion.type === "entity") { s.entities = s.entities.filter((e) => !idSet.has(e.id)); s.saveEntities(); }
-                    else if (s.pendingDeletion.type === "relation") { s.relations = s.relations.filter((r) => !idSet.has(r.id)); s.saveRelations(); }
-                    else if (s.pendingDeletion.type === "mistake") { s.mistakes = s.mistakes.filter((m) => !idSet.has(m.id)); s.saveMistakes(); }
+            async execute(args: any, context?: ToolContext) {
+                const sessionKey = context?.sessionID || "default";
 
-                    s.pendingDeletion = null;
-
-                    return `## ✅ Deletion Complete\n\n**Deleted**: ${deletedCount} item(s)\n\n### Deleted Items\n${deletedItems.map((i) => `- ${i.title || i.name || i.action || i.id}`).join("\n")}\n\n⚠️ This action cannot be undone.`;
-                }
+                // Step 2: Execute
+                if (args.confirmCode) return confirmDeletion(s, sessionKey, args.confirmCode, context?.sessionID);
 
                 // Step 1: Preview
                 let itemsToDelete: MemoryEntry[] = [];
+                const candidates = s.inScope(s.memories, args.global);
 
                 if (args.id) {
                     const found = s.memories.find((m) => m.id === args.id);
                     if (!found) return `❌ Memory not found with ID: ${args.id}`;
                     itemsToDelete = [found];
                 } else if (args.type) {
-                    itemsToDelete = s.memories.filter((m) => m.type === args.type);
+                    itemsToDelete = candidates.filter((m) => m.type === args.type);
                     if (itemsToDelete.length === 0) return `❌ No memories found with type: ${args.type}`;
                 } else if (args.query) {
-                    itemsToDelete = searchText(s.memories, args.query, ["title", "content", "tags"]);
+                    const found = await queryMemories(s, candidates, args.query);
+                    if (typeof found === "string") return found;
+                    itemsToDelete = found.memories;
                     if (itemsToDelete.length === 0) return `❌ No memories found matching: "${args.query}"`;
                 } else {
                     return `❌ Please specify one of: query, id, or type to find memories to delete.`;
                 }
 
                 const code = generateConfirmCode();
-                s.pendingDeletion = {
+                s.pendingDeletions.set(sessionKey, {
                     type: "memory",
                     ids: itemsToDelete.map((i) => i.id),
                     items: itemsToDelete,
                     timestamp: nowTimestamp(),
                     confirmCode: code,
-                };
+                });
 
-                let summary = `## ⚠️ Deletion Confirmation Required\n\n> **WARNING**: This action cannot be undone!\n\n### Items to be Deleted (${itemsToDelete.length})\n\n| ID | Type | Title | Date |\n|----|------|-------|------|\n`;
+                let summary = `## ⚠️ Deletion Confirmation Required\n\n> Deleted items go to the trash for ${s.config.storage.trashRetentionDays} days (\`buddy_trash\`).\n\n### Items to be Deleted (${itemsToDelete.length})\n\n| ID | Type | Title | Date |\n|----|------|-------|------|\n`;
                 for (const item of itemsToDelete.slice(0, 10)) {
                     const date = formatDate(item.timestamp);
                     summary += `| \`${item.id.substring(0, 15)}...\` | ${item.type} | ${item.title.substring(0, 30)} | ${date} |\n`;
@@ -561,6 +885,100 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             },
         }),
 
+        buddy_delete: tool({
+            description: "Delete memories, entities, relations or mistakes with two-step confirmation. Deleting an entity also deletes its relations. Items go to the trash (buddy_trash)",
+            args: {
+                kind: tool.schema.string().optional().describe("What to delete: memory, entity, relation, mistake (required for step 1)"),
+                id: tool.schema.string().optional().describe("Specific record ID"),
+                query: tool.schema.string().optional().describe("Search text to select records"),
+                type: tool.schema.string().optional().describe("Select by type (memory/entity/relation type, or mistake errorType)"),
+                global: tool.schema.boolean().optional().describe("Select from every project, not just the current one"),
+                confirmCode: tool.schema.string().optional().describe("Confirmation code from step 1 to execute deletion"),
+            },
+            async execute(args: any, context?: ToolContext) {
+                const sessionKey = context?.sessionID || "default";
+                if (args.confirmCode) return confirmDeletion(s, sessionKey, args.confirmCode, context?.sessionID);
+
+                const kind = args.kind as DeletableType;
+                if (!DELETABLE_TYPES.includes(kind)) return `❌ Please specify kind: ${DELETABLE_TYPES.join(", ")}.`;
+
+                const all = live(s, kind);
+                const candidates = s.inScope(all, args.global);
+                let selected: typeof all;
+                if (args.id) {
+                    selected = all.filter((i) => i.id === args.id);
+                    if (selected.length === 0) return `❌ No ${kind} found with ID: ${args.id}`;
+                } else if (args.type || args.query) {
+                    selected = args.type ? candidates.filter((i) => i[DELETE_TYPE_FIELD[kind]] === args.type) : candidates;
+                    if (args.query) selected = s.search(DELETE_COLLECTION[kind], selected, args.query);
+                    if (selected.length === 0) return `❌ No ${kind} records match${args.type ? ` type "${args.type}"` : ""}${args.query ? ` query "${sanitizeForInjection(args.query, 100)}"` : ""}.`;
+                } else {
+                    return `❌ Please specify one of: id, query, or type to select ${kind} records.`;
+                }
+
+                const ids = selected.map((i) => i.id);
+                const cascade = kind === "entity" ? danglingRelations(s, ids) : [];
+                const code = generateConfirmCode();
+                s.pendingDeletions.set(sessionKey, {
+                    type: kind,
+                    ids,
+                    items: selected,
+                    cascadeRelationIds: cascade,
+                    timestamp: nowTimestamp(),
+                    confirmCode: code,
+                });
+
+                let summary = `## ⚠️ Deletion Confirmation Required\n\n> Deleted items go to the trash for ${s.config.storage.trashRetentionDays} days (\`buddy_trash\`).\n\n### ${kind} records to delete (${selected.length})\n\n| ID | Item | Date |\n|----|------|------|\n`;
+                for (const item of selected.slice(0, 15)) {
+                    summary += `| \`${item.id}\` | ${sanitizeForInjection(recordLabel(item), 60)} | ${formatDate(item.timestamp || item.createdAt)} |\n`;
+                }
+                if (selected.length > 15) summary += `\n... and ${selected.length - 15} more\n`;
+                if (cascade.length > 0) {
+                    const rels = s.relations.filter((r) => cascade.includes(r.id));
+                    summary += `\n### Relations deleted with them (${rels.length})\n${rels.slice(0, 15).map((r) => `- ${sanitizeForInjection(recordLabel(r), 100)}`).join("\n")}\n`;
+                }
+                summary += `\n---\n\n## 🔐 To Confirm Deletion\n\n\`\`\`\nbuddy_delete(confirmCode: "${code}")\n\`\`\`\n\n⏰ This code expires in **5 minutes** and only works in this session.`;
+                return summary;
+            },
+        }),
+
+        // ========================================
+        // GUIDE FEEDBACK
+        // ========================================
+
+        buddy_feedback: tool({
+            description: "Rate whether an injected guide (memory) was useful, or list the least useful guides as cleanup candidates. Ratings adjust future guide ranking",
+            args: {
+                action: tool.schema.string().optional().describe("'rate' (default) or 'report'"),
+                memoryId: tool.schema.string().optional().describe("Memory ID to rate (required for 'rate')"),
+                helpful: tool.schema.boolean().optional().describe("Was the guide useful? (required for 'rate')"),
+                minShown: tool.schema.number().optional().describe("Report: only memories injected at least this many times (default: 3)"),
+                limit: tool.schema.number().optional().describe("Report: max results (default: 10)"),
+            },
+            async execute(args: any, context?: ToolContext) {
+                const action = args.action || "rate";
+                if (action === "report") {
+                    const candidates = leastUseful(s, s.inScope(s.memories), args.minShown ?? 3).slice(0, args.limit || 10);
+                    if (candidates.length === 0) return "👍 No guides with consistently poor feedback yet.";
+
+                    let msg = `## 👎 Least Useful Guides (${candidates.length})\n\nCleanup candidates — review with \`buddy_remember\`, then edit or \`buddy_delete_memory\`.\n\n`;
+                    msg += "| Memory | Shown | 👍 | 👎 | Implicit | Ignored | Usefulness |\n|--------|-------|----|----|----------|---------|------------|\n";
+                    for (const { memory: m, stats } of candidates) {
+                        msg += `| ${sanitizeForInjection(m.title, 80)} \`${m.id}\` | ${stats.shown} | ${stats.helpful} | ${stats.unhelpful} | ${stats.implicit} | ${stats.ignored} | ${Math.round(stats.usefulness * 100)}% |\n`;
+                    }
+                    return msg;
+                }
+                if (action !== "rate") return `❌ Invalid action: "${args.action}". Use 'rate' or 'report'.`;
+                if (!args.memoryId || typeof args.helpful !== "boolean") return "❌ 'rate' needs memoryId and helpful.";
+
+                const memory = s.memories.find((m) => m.id === args.memoryId);
+                if (!memory) return `❌ Memory not found: ${args.memoryId}`;
+                giveFeedback(s, memory, args.helpful, context?.sessionID);
+                const stats = guideStats(s).get(memory.id)!;
+                return `${args.helpful ? "👍" : "👎"} Feedback recorded for "${sanitizeForInjection(memory.title, 200)}" — usefulness now ${Math.round(stats.usefulness * 100)}% (shown ${stats.shown}×, ${stats.helpful} helpful, ${stats.unhelpful} unhelpful, ${stats.implicit} implicit)`;
+            },
+        }),
+
         // ========================================
         // KNOWLEDGE GRAPH
         // ========================================
@@ -581,6 +999,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                     observations: args.observations,
                     tags: args.tags || [],
                     createdAt: nowTimestamp(),
+                    project: s.projectId,
                 };
                 s.entities.push(entity);
                 s.saveEntities();
@@ -594,9 +1013,10 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
             args: {
                 query: tool.schema.string().describe("Search query"),
                 limit: tool.schema.number().optional().describe("Max results (default: 10)"),
+                global: tool.schema.boolean().optional().describe("Search entities from every project"),
             },
             async execute(args: any) {
-                const results = searchText(s.entities, args.query, ["name", "observations", "tags"]).slice(0, args.limit || 10);
+                const results = s.search("entities", s.inScope(s.entities, args.global), args.query).slice(0, args.limit || 10);
                 const safeQuery = sanitizeForInjection(args.query, 200);
                 if (results.length === 0) return `🔍 No entities found for "${safeQuery}"`;
 
@@ -617,8 +1037,9 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                 description: tool.schema.string().optional().describe("Description"),
             },
             async execute(args: any) {
-                const fromEntity = s.entities.find((e) => e.name === args.from);
-                const toEntity = s.entities.find((e) => e.name === args.to);
+                const entities = s.inScope(s.entities);
+                const fromEntity = entities.find((e) => e.name === args.from);
+                const toEntity = entities.find((e) => e.name === args.to);
                 if (!fromEntity || !toEntity) {
                     return `❌ Cannot create relation. Entity not found: ${!fromEntity ? args.from : args.to}`;
                 }
@@ -629,6 +1050,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                     type: args.type,
                     description: args.description,
                     createdAt: nowTimestamp(),
+                    project: s.projectId,
                 };
                 s.relations.push(rel);
                 s.saveRelations();
@@ -662,6 +1084,7 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
                     impact: args.impact,
                     preventionMethod: args.preventionMethod,
                     relatedRule: args.relatedRule,
+                    project: s.projectId,
                 };
                 s.mistakes.push(record);
                 s.saveMistakes();
@@ -672,19 +1095,22 @@ ${args.learnings ? `### 💡 Learnings\n${args.learnings}\n` : ""}### 📊 Memor
 
         buddy_get_mistake_patterns: tool({
             description: "Get error pattern analysis",
-            args: {},
-            async execute() {
-                if (s.mistakes.length === 0) return "📝 No mistakes recorded yet. 🎉";
+            args: {
+                global: tool.schema.boolean().optional().describe("Analyze mistakes from every project"),
+            },
+            async execute(args: any) {
+                const mistakes = s.inScope(s.mistakes, args.global);
+                if (mistakes.length === 0) return "📝 No mistakes recorded yet. 🎉";
 
                 const byType: Record<string, number> = {};
-                for (const m of s.mistakes) byType[m.errorType] = (byType[m.errorType] || 0) + 1;
+                for (const m of mistakes) byType[m.errorType] = (byType[m.errorType] || 0) + 1;
 
-                let msg = `## 📝 Error Pattern Analysis\n\n**Total**: ${s.mistakes.length}\n\n### By Type\n`;
+                let msg = `## 📝 Error Pattern Analysis\n\n**Total**: ${mistakes.length}\n\n### By Type\n`;
                 for (const [type, count] of Object.entries(byType)) {
                     msg += `- ${type}: ${count}\n`;
                 }
                 msg += `\n### Recent Mistakes\n`;
-                for (const m of s.mistakes.slice(-3)) {
+                for (const m of mistakes.slice(-3)) {
                     msg += `- ${m.action.substring(0, 50)}... (${m.errorType})\n`;
                 }
                 return msg;
@@ -763,7 +1189,7 @@ ${warnings.length > 0 ? `### ⚠️ Warnings\n${warnings.join("\n")}` : ""}`;
             args: {
                 prompt: tool.schema.string().describe("Question or prompt for the AI"),
             },
-            async execute(args: any) {
+            async execute(args: any, context?: ToolContext) {
                 const response = await askAI(s, args.prompt);
 
                 const entry: MemoryEntry = {
@@ -773,6 +1199,8 @@ ${warnings.length > 0 ? `### ⚠️ Warnings\n${warnings.join("\n")}` : ""}`;
                     content: `Q: ${args.prompt}\n\nA: ${response}`,
                     tags: ["ai-query"],
                     timestamp: nowTimestamp(),
+                    project: s.projectId,
+                    provenance: s.provenance("buddy_ask_ai", { sessionId: context?.sessionID, model: s.llmModel() }),
                 };
                 s.memories.push(entry);
                 s.saveMemories();
@@ -802,7 +1230,7 @@ ${warnings.length > 0 ? `### ⚠️ Warnings\n${warnings.join("\n")}` : ""}`;
             },
             async execute(args: any) {
                 const type = args.type || "general";
-                const relevant = searchText(s.memories, args.context, ["title", "content"]).slice(0, 3);
+                const relevant = s.search("memories", s.inScope(s.memories), args.context).slice(0, 3);
                 const memCtx = relevant.length > 0
                     ? `\n\nRelevant past decisions:\n${relevant.map((m) => `- ${m.title}: ${m.content.substring(0, 100)}`).join("\n")}`
                     : "";
@@ -813,6 +1241,197 @@ ${warnings.length > 0 ? `### ⚠️ Warnings\n${warnings.join("\n")}` : ""}`;
             },
         }),
 
+        // ========================================
+        // BACKUPS
+        // ========================================
+
+        buddy_trash: tool({
+            description: "Manage deleted items. Actions: list (default), restore (ids), purge (ids, or this project's trash when omitted — permanent)",
+            args: {
+                action: tool.schema.string().optional().describe("'list' (default), 'restore', or 'purge'"),
+                ids: tool.schema.array(tool.schema.string()).optional().describe("Trash IDs to restore or purge"),
+                global: tool.schema.boolean().optional().describe("List (or purge) trash from every project"),
+            },
+            async execute(args: any) {
+                const action = args.action || "list";
+
+                if (action === "restore") {
+                    if (!args.ids || args.ids.length === 0) return `❌ Please specify the trash \`ids\` to restore. Use \`buddy_trash()\` to list them.`;
+                    let result: ReturnType<typeof restoreFromTrash>;
+                    try {
+                        result = restoreFromTrash(s, args.ids);
+                    } catch (e) {
+                        if (e instanceof TrashSaveError) return `❌ ${e.message}. Please try again.`;
+                        throw e;
+                    }
+                    const { restored, conflicts, missing } = result;
+                    let output = `## ♻️ Restored ${restored.length} item(s)\n\n${restored.map((e) => `- ${sanitizeForInjection(recordLabel(e.item), 80)} (${e.type})`).join("\n") || "(none)"}`;
+                    if (conflicts.length > 0) output += `\n\n⚠️ Already exists, left in trash: ${conflicts.map((e) => `\`${e.id}\``).join(", ")}`;
+                    if (missing.length > 0) output += `\n\n⚠️ Not in trash: ${missing.map((id) => `\`${id}\``).join(", ")}`;
+                    return output;
+                }
+
+                if (action === "purge") {
+                    // Without ids, purge what `list` shows — never other projects' trash unless global
+                    const ids: string[] = args.ids && args.ids.length > 0 ? args.ids : s.inScope(s.trash, args.global).map((e) => e.id);
+                    const idSet = new Set(ids);
+                    const doomed = s.trash.filter((e) => idSet.has(e.id));
+                    if (doomed.length === 0) return `🗑️ Permanently deleted 0 trash item(s).`;
+                    // The snapshot keeps the purged entries — the only copy once they're gone
+                    const snap = s.createSnapshot("pre-purge", doomed);
+                    if (!snap) return `❌ Could not take the pre-purge snapshot, so nothing was purged. Check \`buddy_logs(filter: "Snapshot")\`.`;
+                    try {
+                        const purged = purgeTrash(s, ids);
+                        return `🗑️ Permanently deleted ${purged} trash item(s).\n\n> Recoverable with \`buddy_restore(snapshot: "${snap.id}", ids: [...])\`.`;
+                    } catch (e) {
+                        if (e instanceof TrashSaveError) return `❌ ${e.message}. Please try again.`;
+                        throw e;
+                    }
+                }
+
+                const entries = s.inScope(s.trash, args.global).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+                if (entries.length === 0) return "🗑️ Trash is empty.";
+                let output = `## 🗑️ Trash (${entries.length})\n\n| Trash ID | Type | Item | Deleted | Purged in |\n|----------|------|------|---------|-----------|\n`;
+                for (const e of entries.slice(0, 50)) {
+                    output += `| \`${e.id}\` | ${e.type} | ${sanitizeForInjection(recordLabel(e.item), 60)} | ${formatDateTime(e.deletedAt)} | ${daysUntilPurge(s, e)}d |\n`;
+                }
+                if (entries.length > 50) output += `\n... and ${entries.length - 50} more\n`;
+                output += `\n> Restore with \`buddy_trash(action: "restore", ids: ["..."])\`.`;
+                return output;
+            },
+        }),
+
+        buddy_backup: tool({
+            description: "Manage data snapshots. Snapshots are taken daily and before restores, trash purges and merges (deleted items go to buddy_trash). Actions: list, create, diff (snapshot vs current state)",
+            args: {
+                action: tool.schema.string().optional().describe("'list' (default), 'create', or 'diff'"),
+                snapshot: tool.schema.string().optional().describe("Snapshot ID (or unique prefix) — required for 'diff'"),
+            },
+            async execute(args: any) {
+                const baseDir = s.storage.getBaseDir();
+                const action = args.action || "list";
+
+                if (action === "create") {
+                    const info = s.createSnapshot("manual");
+                    if (!info) return `❌ Snapshot failed. Check \`buddy_logs(filter: "Snapshot")\` for details.`;
+                    return `## 💾 Snapshot Created\n\n**ID**: \`${info.id}\`\n${SNAPSHOT_COLLECTIONS.map((c) => `- ${c}: ${info.counts[c]}`).join("\n")}`;
+                }
+
+                if (action === "diff") {
+                    if (!args.snapshot) return `❌ Please specify a snapshot ID. Use \`buddy_backup()\` to list snapshots.`;
+                    const snap = loadSnapshot(baseDir, args.snapshot);
+                    if (!snap) return `❌ Snapshot not found (or prefix is ambiguous): ${args.snapshot}`;
+
+                    const diff = diffSnapshot(snap.collections, s.snapshotData());
+                    let output = `## 🔍 Snapshot \`${snap.id}\` vs Current\n\n_${snap.reason} — ${formatDateTime(snap.createdAt)}_\n`;
+                    let total = 0;
+                    for (const c of SNAPSHOT_COLLECTIONS) {
+                        const d = diff[c];
+                        const count = d.added.length + d.removed.length + d.changed.length;
+                        if (count === 0) continue;
+                        total += count;
+                        output += `\n### ${c} (+${d.added.length} / -${d.removed.length} / ~${d.changed.length})\n`;
+                        for (const r of d.removed.slice(0, 10)) output += `- ➖ \`${r.id}\` ${sanitizeForInjection(recordLabel(r), 80)} _(restorable)_\n`;
+                        for (const ch of d.changed.slice(0, 10)) output += `- ✏️ \`${ch.after.id}\` ${sanitizeForInjection(recordLabel(ch.before), 80)} → ${sanitizeForInjection(recordLabel(ch.after), 80)}\n`;
+                        for (const r of d.added.slice(0, 10)) output += `- ➕ \`${r.id}\` ${sanitizeForInjection(recordLabel(r), 80)}\n`;
+                    }
+                    const purged = purgedTrash(s, snap.purged);
+                    if (purged.length > 0) {
+                        total += purged.length;
+                        output += `\n### trash (purged after this snapshot: ${purged.length})\n`;
+                        for (const e of purged.slice(0, 10)) output += `- ➖ \`${e.id}\` ${sanitizeForInjection(recordLabel(e.item), 80)} (${e.type}) _(restorable to the trash)_\n`;
+                    }
+                    if (total === 0) output += `\n✅ No differences.`;
+                    else output += `\n> Restore items with \`buddy_restore(snapshot: "${snap.id}", ids: ["..."])\`, or omit ids to restore everything.`;
+                    return output;
+                }
+
+                const snapshots = listSnapshots(baseDir);
+                if (snapshots.length === 0) return `💾 No snapshots yet. Use \`buddy_backup(action: "create")\` to take one.`;
+                let output = `## 💾 Snapshots (${snapshots.length}, newest first)\n\n| ID | Reason | Date | Memories | Entities | Relations | Mistakes |\n|----|--------|------|----------|----------|-----------|----------|\n`;
+                for (const snap of snapshots) {
+                    output += `| \`${snap.id}\` | ${snap.reason} | ${formatDateTime(snap.createdAt)} | ${snap.counts.memories} | ${snap.counts.entities} | ${snap.counts.relations} | ${snap.counts.mistakes} |\n`;
+                }
+                output += `\nStored in: \`${baseDir}/snapshots\``;
+                return output;
+            },
+        }),
+
+        buddy_restore: tool({
+            description: "Restore data from a snapshot — this project's records, or only the listed item IDs. Trash entries purged after a pre-purge snapshot go back to the trash. A snapshot of the current state is taken first",
+            args: {
+                snapshot: tool.schema.string().describe("Snapshot ID (or unique prefix) from buddy_backup"),
+                ids: tool.schema.array(tool.schema.string()).optional().describe("Only restore these record IDs (memories, entities, relations, mistakes, or purged trash IDs)"),
+                global: tool.schema.boolean().optional().describe("Without ids, roll back every project's records instead of only the current project's"),
+            },
+            async execute(args: any) {
+                const snap = loadSnapshot(s.storage.getBaseDir(), args.snapshot);
+                if (!snap) return `❌ Snapshot not found (or prefix is ambiguous): ${args.snapshot}`;
+
+                s.snapshotBefore("restore");
+                const current = s.snapshotData();
+
+                if (!args.ids || args.ids.length === 0) {
+                    // Replace only the in-scope records; other projects' records stay as they are now
+                    const rollBack = (c: SnapshotCollection) => {
+                        const replaced = new Set(s.inScope(current[c], args.global).map((r) => r.id));
+                        return [...current[c].filter((r) => !replaced.has(r.id)), ...s.inScope(snap.collections[c], args.global)];
+                    };
+                    const counts = SNAPSHOT_COLLECTIONS.map((c) => `- ${c}: ${s.inScope(current[c], args.global).length} → ${s.inScope(snap.collections[c], args.global).length}`);
+                    s.memories = rollBack("memories") as MemoryEntry[];
+                    s.entities = rollBack("entities") as Entity[];
+                    s.relations = rollBack("relations") as Relation[];
+                    s.mistakes = rollBack("mistakes") as MistakeRecord[];
+                    s.saveMemories();
+                    s.saveEntities();
+                    s.saveRelations();
+                    s.saveMistakes();
+                    const purged = s.inScope(purgedTrash(s, snap.purged), args.global);
+                    if (purged.length > 0) {
+                        s.trash.push(...purged);
+                        s.saveTrash();
+                    }
+                    const scope = (args.global ?? s.config.storage.scope === "global") ? "all projects" : projectLabel(s.projectId);
+                    return `## ♻️ Snapshot Restored (${scope})\n\n**From**: \`${snap.id}\`\n${counts.join("\n")}`
+                        + (purged.length > 0 ? `\n- trash: +${purged.length} purged item(s)` : "");
+                }
+
+                const wanted = new Set<string>(args.ids);
+                const restored: string[] = [];
+                const touched = new Set<string>();
+                for (const c of SNAPSHOT_COLLECTIONS) {
+                    for (const rec of snap.collections[c]) {
+                        if (!wanted.has(rec.id)) continue;
+                        const live = current[c];
+                        const idx = live.findIndex((r) => r.id === rec.id);
+                        if (idx >= 0) live[idx] = { ...rec };
+                        else live.push({ ...rec });
+                        restored.push(`- \`${rec.id}\` ${sanitizeForInjection(recordLabel(rec), 80)} (${c})`);
+                        touched.add(c);
+                        wanted.delete(rec.id);
+                    }
+                }
+                if (touched.has("memories")) s.saveMemories();
+                if (touched.has("entities")) s.saveEntities();
+                if (touched.has("relations")) s.saveRelations();
+                if (touched.has("mistakes")) s.saveMistakes();
+                const purged = purgedTrash(s, snap.purged).filter((e) => wanted.has(e.id) || wanted.has(e.item.id));
+                if (purged.length > 0) {
+                    s.trash.push(...purged);
+                    s.saveTrash();
+                    for (const e of purged) {
+                        restored.push(`- \`${e.id}\` ${sanitizeForInjection(recordLabel(e.item), 80)} (${e.type}, back in the trash)`);
+                        wanted.delete(e.id);
+                        wanted.delete(e.item.id);
+                    }
+                }
+
+                let output = `## ♻️ Restored ${restored.length} item(s) from \`${snap.id}\`\n\n${restored.join("\n") || "(none)"}`;
+                if (wanted.size > 0) output += `\n\n⚠️ Not found in snapshot: ${[...wanted].map((id) => `\`${id}\``).join(", ")}`;
+                return output;
+            },
+        }),
+
         // ========================================
         // LOGS
         // ========================================
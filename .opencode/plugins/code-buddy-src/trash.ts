@@ -0,0 +1,190 @@
+/**
+ * Soft delete — deleted memories, entities, relations and mistakes are moved
+ * to the `trash` collection and kept for `storage.trashRetentionDays` before
+ * being purged.
+ *
+ * Moves write the side that gains the record first, so a crash or failed
+ * write in between leaves a duplicate rather than losing the record; failed
+ * writes are rolled back in memory and reported with a TrashSaveError.
+ */
+
+import type { PluginState } from "./state";
+import type { DeletableType, TrashEntry } from "./types";
+import { generateId, nowTimestamp } from "./helpers";
+import { inProject } from "./project";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRecord = { id: string; project?: string; [key: string]: any };
+
+/** A trash operation could not persist its changes. */
+export class TrashSaveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TrashSaveError";
+    }
+}
+
+/** Live array for a deletable type. */
+export function live(s: PluginState, type: DeletableType): AnyRecord[] {
+    switch (type) {
+        case "memory": return s.memories;
+        case "entity": return s.entities;
+        case "relation": return s.relations;
+        case "mistake": return s.mistakes;
+    }
+}
+
+function save(s: PluginState, type: DeletableType): boolean {
+    switch (type) {
+        case "memory": return s.saveMemories();
+        case "entity": return s.saveEntities();
+        case "relation": return s.saveRelations();
+        case "mistake": return s.saveMistakes();
+    }
+}
+
+/** Drop trash entries by id, in memory only. */
+function dropFromTrash(s: PluginState, ids: Set<string>): void {
+    s.trash.splice(0, s.trash.length, ...s.trash.filter((e) => !ids.has(e.id)));
+}
+
+/**
+ * Remove the given records from their collection and put them in the trash.
+ * Returns the trash entries created; throws TrashSaveError (with nothing
+ * moved) when either write fails.
+ */
+export function moveToTrash(s: PluginState, type: DeletableType, ids: string[], sessionId?: string): TrashEntry[] {
+    const idSet = new Set(ids);
+    const items = live(s, type);
+    const removed = items.filter((i) => idSet.has(i.id));
+    if (removed.length === 0) return [];
+
+    const deletedAt = nowTimestamp();
+    const entries: TrashEntry[] = removed.map((item) => ({
+        id: generateId("trash"),
+        type,
+        item,
+        deletedAt,
+        ...(sessionId && sessionId !== "default" ? { sessionId } : {}),
+        ...(item.project ? { project: item.project } : {}),
+    }));
+
+    const entryIds = new Set(entries.map((e) => e.id));
+    s.trash.push(...entries);
+    if (!s.saveTrash()) {
+        dropFromTrash(s, entryIds);
+        throw new TrashSaveError(`Could not save the trash — nothing was deleted`);
+    }
+    const before = [...items];
+    items.splice(0, items.length, ...items.filter((i) => !idSet.has(i.id)));
+    if (!save(s, type)) {
+        items.splice(0, items.length, ...before);
+        dropFromTrash(s, entryIds);
+        s.saveTrash();
+        throw new TrashSaveError(`Could not save the ${type} collection — nothing was deleted`);
+    }
+    return entries;
+}
+
+/**
+ * Relations that reference (by name) an entity that would no longer be
+ * visible from the relation's project once `entityIds` are removed.
+ */
+export function danglingRelations(s: PluginState, entityIds: string[]): string[] {
+    const removed = new Set(entityIds);
+    const remaining = s.entities.filter((e) => !removed.has(e.id));
+    const names = new Set(s.entities.filter((e) => removed.has(e.id)).map((e) => e.name));
+
+    return s.relations
+        .filter((r) => names.has(r.from) || names.has(r.to))
+        .filter((r) => {
+            const visible = inProject(remaining, r.project ?? "");
+            return !visible.some((e) => e.name === r.from) || !visible.some((e) => e.name === r.to);
+        })
+        .map((r) => r.id);
+}
+
+/**
+ * Put trashed records back. Entries whose record id is live again (e.g. it
+ * was re-created) are left in the trash and reported as conflicts. Throws
+ * TrashSaveError when the records could not be saved back.
+ */
+export function restoreFromTrash(s: PluginState, trashIds: string[]): { restored: TrashEntry[]; conflicts: TrashEntry[]; missing: string[] } {
+    const wanted = new Set(trashIds);
+    const restored: TrashEntry[] = [];
+    const conflicts: TrashEntry[] = [];
+    const touched = new Set<DeletableType>();
+
+    for (const entry of s.trash) {
+        if (!wanted.has(entry.id)) continue;
+        wanted.delete(entry.id);
+        const items = live(s, entry.type);
+        if (items.some((i) => i.id === entry.item.id)) {
+            conflicts.push(entry);
+            continue;
+        }
+        items.push(entry.item);
+        restored.push(entry);
+        touched.add(entry.type);
+    }
+
+    if (restored.length > 0) {
+        const itemIds = new Set(restored.map((e) => e.item.id));
+        const failed = [...touched].filter((type) => !save(s, type));
+        if (failed.length > 0) {
+            for (const type of failed) {
+                const items = live(s, type);
+                items.splice(0, items.length, ...items.filter((i) => !itemIds.has(i.id)));
+            }
+            throw new TrashSaveError(`Could not save the ${failed.join(", ")} collection — those items are still in the trash`);
+        }
+        const trashBefore = [...s.trash];
+        dropFromTrash(s, new Set(restored.map((e) => e.id)));
+        if (!s.saveTrash()) {
+            // Restored, but still listed in the trash on disk — keep showing them there
+            s.trash.splice(0, s.trash.length, ...trashBefore);
+            throw new TrashSaveError(`Restored ${restored.length} item(s), but could not remove them from the trash`);
+        }
+    }
+    return { restored, conflicts, missing: [...wanted] };
+}
+
+/**
+ * Permanently delete trash entries (all of them when `trashIds` is omitted).
+ * Returns the number purged; throws TrashSaveError when the trash could not be saved.
+ */
+export function purgeTrash(s: PluginState, trashIds?: string[]): number {
+    const ids = trashIds ? new Set(trashIds) : null;
+    const keep = s.trash.filter((e) => ids !== null && !ids.has(e.id));
+    const purged = s.trash.length - keep.length;
+    if (purged === 0) return 0;
+    const before = [...s.trash];
+    s.trash.splice(0, s.trash.length, ...keep);
+    if (!s.saveTrash()) {
+        s.trash.splice(0, s.trash.length, ...before);
+        throw new TrashSaveError(`Could not save the trash — nothing was purged`);
+    }
+    return purged;
+}
+
+/** Purge entries older than the retention period. Returns the number purged (0 when saving failed). */
+export function purgeExpiredTrash(s: PluginState): number {
+    const cutoff = Date.now() - s.config.storage.trashRetentionDays * DAY_MS;
+    const expired = s.trash.filter((e) => new Date(e.deletedAt).getTime() < cutoff).map((e) => e.id);
+    if (expired.length === 0) return 0;
+    try {
+        return purgeTrash(s, expired);
+    } catch (error) {
+        if (!(error instanceof TrashSaveError)) throw error;
+        s.log(`[code-buddy] ${error.message} (expired entries)`);
+        return 0;
+    }
+}
+
+/** Days until a trash entry is purged automatically. */
+export function daysUntilPurge(s: PluginState, entry: TrashEntry): number {
+    const expiresAt = new Date(entry.deletedAt).getTime() + s.config.storage.trashRetentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+}
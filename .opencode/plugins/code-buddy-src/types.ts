@@ -26,6 +26,44 @@ export interface MemoryEntry {
     content: string;
     tags: string[];
     timestamp: string;
+    /** Project root this memory belongs to. Absent on legacy entries, which are shared across projects. */
+    project?: string;
+    /** Where the memory came from. Absent on entries recorded before provenance existed. */
+    provenance?: MemoryProvenance;
+}
+
+/** What created a memory: a tool name, or one of the automatic observers. */
+export type MemorySource =
+    | "buddy_add_memory" | "buddy_do" | "buddy_done" | "buddy_ask_ai"
+    | "auto-observer" | "sync-flush";
+
+export interface MemoryProvenance {
+    source: MemorySource;
+    sessionId?: string;
+    /** Files edited in the session that produced the memory. */
+    files?: string[];
+    gitBranch?: string;
+    gitCommit?: string;
+    /** "provider/model" that wrote the content (the plugin's LLM for AI summaries, else the session's chat model). */
+    model?: string;
+}
+
+export type RevisionSource = "original" | "update" | "llm-merge" | "sync-merge" | "revert";
+
+/** Full copy of a memory after one change. Revision 1 is the state before the first recorded change. */
+export interface MemoryRevision {
+    id: string;
+    memoryId: string;
+    revision: number;
+    timestamp: string;
+    source: RevisionSource;
+    /** Who made the change: the agent name for tool edits, "code-buddy" for automatic merges. */
+    author: string;
+    title: string;
+    content: string;
+    type: MemoryType;
+    tags: string[];
+    project?: string;
 }
 
 // ---- Knowledge Graph ----
@@ -39,6 +77,7 @@ export interface Entity {
     observations: string[];
     tags: string[];
     createdAt: string;
+    project?: string;
 }
 
 export interface Relation {
@@ -48,6 +87,7 @@ export interface Relation {
     type: string;
     description?: string;
     createdAt: string;
+    project?: string;
 }
 
 // ---- Error Learning ----
@@ -67,6 +107,7 @@ export interface MistakeRecord {
     impact: string;
     preventionMethod: string;
     relatedRule?: string;
+    project?: string;
 }
 
 // ---- Session ----
@@ -90,26 +131,166 @@ export interface Observation {
     args: Record<string, unknown>;
     result?: string;
     hasError: boolean;
+    /** File the call changed (edits, writes). */
     fileEdited?: string;
     isWriteAction: boolean;
+    /** Files the call touched, including reads and searched paths. */
+    files?: string[];
+    /** Shell command, for bash-like tools. */
+    command?: string;
+    exitCode?: number;
+    /** Unified diff hunks of an edit (truncated). */
+    diff?: string;
+    /** Test summary parsed from the output. */
+    tests?: TestResults;
+    /** Search pattern (grep, glob) or fetched URL. */
+    query?: string;
+}
+
+export interface TestResults {
+    passed: number;
+    failed: number;
+    skipped: number;
+}
+
+/**
+ * Config-defined extractor for a tool (`hooks.extractors`, keyed by tool name
+ * or a `prefix*` pattern such as `"jira_*"`).
+ */
+export interface ExtractorSpec {
+    /** Built-in extractor to start from: read, edit, write, bash, grep, glob, webfetch, todowrite or generic. */
+    base?: string;
+    /** Force the call to count (or not) as a write. */
+    write?: boolean;
+    /** Argument or metadata keys holding file paths. */
+    pathArgs?: string[];
+    /** Argument key holding a shell command. */
+    commandArg?: string;
 }
 
 export interface SessionBuffer {
     observations: Observation[];
     delegationContext?: string;
+    /** "provider/model" of the session's chat, from chat.message. */
+    model?: string;
+    /** Content of each edited file before its first and after its last edit, by path. */
+    files?: Record<string, FileSnapshot>;
+}
+
+/** File content around a session's edits; null when the file did not exist. */
+export interface FileSnapshot {
+    before: string | null;
+    after: string | null;
+}
+
+/** One edited file's changes over a session. */
+export interface FileDiff {
+    file: string;
+    /** Unified diff (truncated). */
+    diff: string;
+    /** Added and removed lines (untruncated). */
+    added: string[];
+    removed: string[];
+    /** The file did not exist before the session. */
+    created: boolean;
 }
 
 // ---- Pending Deletion ----
 
+export type DeletableType = "memory" | "entity" | "relation" | "mistake";
+
 export interface PendingDeletion {
-    type: "memory" | "entity" | "relation" | "mistake";
+    type: DeletableType;
     ids: string[];
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     items: any[];
+    /** Relations that would dangle once the selected entities are gone — deleted in the same step. */
+    cascadeRelationIds?: string[];
     timestamp: string;
     confirmCode: string;
 }
 
+// ---- Trash ----
+
+/** A deleted record, kept until restored or purged. */
+export interface TrashEntry {
+    id: string;
+    type: DeletableType;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    item: { id: string; [key: string]: any };
+    deletedAt: string;
+    /** Session that confirmed the deletion. */
+    sessionId?: string;
+    project?: string;
+}
+
+// ---- Embeddings ----
+
+/** Embedding of one memory, keyed by the memory id. */
+export interface MemoryVector {
+    /** Memory id. */
+    id: string;
+    /** Embedding model that produced the vector ("local-hash-v1" or "remote:<model>"). */
+    model: string;
+    /** Hash of the embedded text — a mismatch means the memory changed and must be re-embedded. */
+    hash: string;
+    vector: number[];
+    updatedAt: string;
+}
+
+// ---- Guide feedback ----
+
+/** Evidence about an injected guide: explicit ratings, or the agent editing a file it mentions / recalling it. */
+export type FeedbackSignal = "helpful" | "unhelpful" | "file-edited" | "recalled";
+
+/** One guide injected into one prompt, with the feedback it drew. */
+export interface GuideInjection {
+    id: string;
+    memoryId: string;
+    sessionId: string;
+    /** Ranking score at injection time (0 for feedback on a memory that was never injected). */
+    score: number;
+    injectedAt: string;
+    signals: FeedbackSignal[];
+    updatedAt: string;
+    project?: string;
+}
+
+// ---- Storage ----
+
+/** Persisted record collections. Every record carries a unique `id`. */
+export type CollectionName = "memories" | "entities" | "relations" | "mistakes" | "revisions" | "trash" | "vectors" | "injections";
+
+export const COLLECTIONS: CollectionName[] = ["memories", "entities", "relations", "mistakes", "revisions", "trash", "vectors", "injections"];
+
+/**
+ * Persistence backend behind PluginState. Implementations: LocalStorage
+ * (one JSON file per collection) and SqliteStorage (row-level, node:sqlite).
+ */
+export interface StorageBackend {
+    readonly kind: "json" | "sqlite";
+    getBaseDir(): string;
+    /** Load all records of a collection, in insertion order. */
+    load<T extends { id: string }>(collection: CollectionName): T[];
+    /** Persist the full in-memory state of a collection. Returns false on failure. */
+    save<T extends { id: string }>(collection: CollectionName, items: T[]): boolean;
+    /**
+     * Read-modify-write under the backend's cross-process lock: `merge` gets the
+     * records currently persisted and returns what to persist instead.
+     * Returns the persisted records, or null on failure.
+     */
+    update<T extends { id: string }>(collection: CollectionName, merge: (current: T[]) => T[]): T[] | null;
+    /** Notify `onChange` when another process changes a collection. Returns a stop function. */
+    watch(onChange: (collection: CollectionName) => void): () => void;
+    /** Persisted schema version of a collection: 0 = nothing stored yet, 1 = legacy unversioned data. */
+    getSchemaVersion(collection: CollectionName): number;
+    /** Persist upgraded records together with their new schema version. */
+    saveMigrated<T extends { id: string }>(collection: CollectionName, items: T[], schemaVersion: number): boolean;
+    /** Backend-native full-text search over memories for tokenized `terms`, best first. Absent = use the in-memory index. */
+    searchMemories?(terms: string[]): Array<{ id: string; score: number }>;
+    close?(): void;
+}
+
 // ---- LLM ----
 
 export interface ProviderInfo {
@@ -132,7 +313,16 @@ export interface PluginConfig {
         temperature: number;
     };
     storage: {
+        /** Data directory. `~` expands to the home directory; relative paths resolve against the project root. */
         dataDir: string;
+        /** Persistence backend: "json" files (default) or "sqlite" (requires node:sqlite). */
+        backend: "json" | "sqlite";
+        /** Default recall scope: "project" (current project + legacy shared data) or "global" (every project). */
+        scope: "project" | "global";
+        /** Number of data snapshots to keep in `<dataDir>/snapshots/` (oldest are pruned). */
+        maxSnapshots: number;
+        /** Days deleted items stay in the trash before being purged for good. */
+        trashRetentionDays: number;
     };
     features: {
         memory: boolean;
@@ -150,10 +340,58 @@ export interface PluginConfig {
         autoObserve: boolean;
         observeMinActions: number;
         observeIgnoreTools: string[];
+        /** Extra observation extractors by tool name (or `prefix*`), overriding the built-in ones. */
+        extractors: Record<string, ExtractorSpec>;
         fullAuto: boolean;
         autoErrorDetect: boolean;
         /** Only auto-record when the observation buffer contains at least one write action (file edit, bash, etc.). */
         requireEditForRecord: boolean;
+        /** Minimum relevance (0–1) for a memory to be injected as a guide into a user prompt. */
+        guideMinRelevance: number;
+        /** Most guides per injection. */
+        guideMaxCount: number;
+        /** Characters of content kept per guide. */
+        guideMaxChars: number;
+        /** Injections per session between flushes (0 disables guide injection). */
+        guideMaxInjectionsPerSession: number;
+        /** After the first injection, a prompt less similar than this (cosine) to everything injected so far counts as a new topic and may get new guides. */
+        guideTopicShiftThreshold: number;
+        /** Token budget (~4 chars/token) for the whole injected guide block. */
+        guideTokenBudget: number;
+        /** Ranking weight per memory type; 0 never injects that type. Missing types weigh 1. */
+        guideTypeWeights: Partial<Record<MemoryType, number>>;
+        /** When non-empty, only memories with one of these tags are injected. */
+        guideIncludeTags: string[];
+        /** Memories with any of these tags are never injected (e.g. "auto-observed"). */
+        guideExcludeTags: string[];
+        /** Minimum relevance (0–1) of a recorded mistake's action or impact for it to be injected as a pitfall warning. */
+        pitfallMinRelevance: number;
+        /** Most pitfall warnings per injection (0 disables them). */
+        pitfallMaxCount: number;
+        /** Append memories, entities and mistakes that reference a file to the first read or edit of it in a session. */
+        fileContext: boolean;
+        /** Most items of each kind in a file note. */
+        fileContextMaxItems: number;
+        /** Token budget (~4 chars/token) for the block injected at session compaction. */
+        compactionTokenBudget: number;
+    };
+    embeddings: {
+        /** "local" (offline hashed TF-IDF vectors), "remote" (the provider's /embeddings endpoint) or "off" (lexical only). */
+        mode: "local" | "remote" | "off";
+        /** Model sent to the /embeddings endpoint in remote mode. */
+        model: string;
+        /** Share of vector similarity in hybrid scores (0 = lexical only, 1 = vectors only). */
+        vectorWeight: number;
+        /** Cosine similarity below which a vector match is ignored. */
+        minSimilarity: number;
+    };
+    redaction: {
+        /** Mask secrets in observations, LLM prompts and saved records. */
+        enabled: boolean;
+        /** Extra regular expressions (JavaScript syntax) whose matches are masked. */
+        patterns: string[];
+        /** Shannon entropy (bits/char) from which a long letters-and-digits token counts as a secret (0 disables the check). */
+        minEntropy: number;
     };
 }
 